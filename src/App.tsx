@@ -8,8 +8,11 @@ import InstallPrompt from "@/components/InstallPrompt";
 import TeacherDashboard from "./pages/TeacherDashboard";
 import AttendanceScanner from "./pages/AttendanceScanner";
 import AttendanceResults from "./pages/AttendanceResults";
+import AttendanceReports from "./pages/AttendanceReports";
 import ClassManagement from "./pages/ClassManagement";
 import StudentEnrollment from "./pages/StudentEnrollment";
+import PhotoEnrollment from "./pages/PhotoEnrollment";
+import StudentProfile from "./pages/StudentProfile";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
@@ -28,8 +31,12 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/scan/:classId" element={<AttendanceScanner />} />
             <Route path="/results/:classId" element={<AttendanceResults />} />
+            <Route path="/results/:classId/:date" element={<AttendanceResults />} />
+            <Route path="/reports/:classId" element={<AttendanceReports />} />
             <Route path="/class/:classId" element={<ClassManagement />} />
             <Route path="/enroll/:classId" element={<StudentEnrollment />} />
+            <Route path="/enroll/:classId/photos" element={<PhotoEnrollment />} />
+            <Route path="/student/:id" element={<StudentProfile />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Class, useClassRecordCounts, useDeleteClass } from '@/hooks/useClasses';
+
+interface DeleteClassDialogProps {
+  classData: Class;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const DeleteClassDialog = ({ classData, open, onOpenChange }: DeleteClassDialogProps) => {
+  const navigate = useNavigate();
+  const [confirmation, setConfirmation] = useState('');
+  const [deleteClassOnlyStudents, setDeleteClassOnlyStudents] = useState(true);
+  const { data: counts, isLoading: countsLoading } = useClassRecordCounts(classData.id, open);
+  const deleteClass = useDeleteClass();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (deleteClass.isPending) return;
+    if (!nextOpen) {
+      setConfirmation('');
+      setDeleteClassOnlyStudents(true);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteClass.mutateAsync({ classId: classData.id, deleteClassOnlyStudents });
+      onOpenChange(false);
+      navigate('/');
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {classData.name}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Deleting a class cannot be undone. Archive it instead to keep its reports.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="rounded-md bg-destructive/10 p-3 text-sm space-y-1">
+          {countsLoading || !counts ? (
+            <p className="text-muted-foreground">Counting records...</p>
+          ) : (
+            <>
+              <p>This will permanently delete:</p>
+              <ul className="list-disc pl-5 text-muted-foreground">
+                <li>{plural(counts.enrollments, 'enrollment')}</li>
+                <li>{plural(counts.sessions, 'attendance session')}</li>
+                <li>{plural(counts.records, 'attendance record')}</li>
+              </ul>
+              <p className="text-xs text-muted-foreground">Students who are also in other classes keep their face data there.</p>
+              {counts.classOnlyStudents > 0 && (
+                <label className="flex items-start gap-2 pt-2 cursor-pointer">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={deleteClassOnlyStudents}
+                    onCheckedChange={(checked) => setDeleteClassOnlyStudents(checked === true)}
+                  />
+                  <span>
+                    Also delete {plural(counts.classOnlyStudents, 'student')} who {counts.classOnlyStudents === 1 ? 'is' : 'are'} in no other class, with their face data.
+                    <span className="block text-xs text-muted-foreground">
+                      If kept, they stay on file without a class and can only be deleted by an admin.
+                    </span>
+                  </span>
+                </label>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="confirm-class-name">
+            Type <strong>{classData.name}</strong> to confirm
+          </Label>
+          <Input
+            id="confirm-class-name"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteClass.isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleDelete();
+            }}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            disabled={confirmation.trim() !== classData.name || !counts || deleteClass.isPending}
+          >
+            {deleteClass.isPending ? 'Deleting...' : 'Delete Class'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteClassDialog;
@@ -0,0 +1,93 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Class, useDuplicateClass } from '@/hooks/useClasses';
+
+interface DuplicateClassDialogProps {
+  classData: Class;
+  studentCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DuplicateClassDialog = ({ classData, studentCount, open, onOpenChange }: DuplicateClassDialogProps) => {
+  const navigate = useNavigate();
+  const duplicateClass = useDuplicateClass();
+  const [details, setDetails] = useState({ name: '', subject: '', period: '' });
+
+  useEffect(() => {
+    if (open) {
+      setDetails({
+        name: `${classData.name} (copy)`,
+        subject: classData.subject ?? '',
+        period: classData.period ?? ''
+      });
+    }
+  }, [open, classData]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await duplicateClass.mutateAsync({ classId: classData.id, ...details });
+      onOpenChange(false);
+      navigate(`/class/${created.id}`);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate Class</DialogTitle>
+          <DialogDescription>
+            Creates a new class with the same schedule and its {studentCount} current student{studentCount === 1 ? '' : 's'}.
+            Face data carries over; attendance history stays with this class.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-name">Class Name *</Label>
+            <Input
+              id="duplicate-name"
+              value={details.name}
+              onChange={(e) => setDetails({ ...details, name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-subject">Subject</Label>
+            <Input
+              id="duplicate-subject"
+              value={details.subject}
+              onChange={(e) => setDetails({ ...details, subject: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-period">Period/Time</Label>
+            <Input
+              id="duplicate-period"
+              placeholder="e.g., 1st Period, 9:00 AM"
+              value={details.period}
+              onChange={(e) => setDetails({ ...details, period: e.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!details.name.trim() || duplicateClass.isPending}>
+              {duplicateClass.isPending ? 'Duplicating...' : 'Duplicate Class'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateClassDialog;
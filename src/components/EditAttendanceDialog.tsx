@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { History, Loader2 } from 'lucide-react';
+import { useAttendanceAuditLog, useUpdateAttendanceRecord } from '@/hooks/useAttendance';
+import { ATTENDANCE_STATUSES, AttendanceDetails, AttendanceStatus, EXCUSE_REASONS, ExcuseCode, describeAttendance } from '@/lib/attendance';
+
+export interface EditableAttendanceRecord {
+  recordId: string;
+  studentName: string;
+  details: AttendanceDetails;
+}
+
+interface EditAttendanceDialogProps {
+  record: EditableAttendanceRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EditAttendanceDialog = ({ record, onOpenChange, onSaved }: EditAttendanceDialogProps) => {
+  const [status, setStatus] = useState<AttendanceStatus>('present');
+  const [minutesLate, setMinutesLate] = useState('');
+  const [excuseCode, setExcuseCode] = useState<ExcuseCode | undefined>();
+  const [reason, setReason] = useState('');
+  const updateRecord = useUpdateAttendanceRecord();
+  const { data: history, isLoading: historyLoading } = useAttendanceAuditLog(record?.recordId ?? '');
+
+  // Start from the saved values every time a record is opened
+  useEffect(() => {
+    if (record) {
+      setStatus(record.details.status);
+      setMinutesLate(record.details.minutes_late ? String(record.details.minutes_late) : '');
+      setExcuseCode(record.details.excuse_code ?? undefined);
+      setReason('');
+    }
+  }, [record]);
+
+  const handleSave = async () => {
+    if (!record) return;
+
+    try {
+      await updateRecord.mutateAsync({
+        recordId: record.recordId,
+        status,
+        reason: reason.trim(),
+        minutesLate: status === 'late' && minutesLate !== '' ? Number(minutesLate) : null,
+        excuseCode: status === 'excused' ? excuseCode ?? 'other' : null
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <Dialog open={!!record} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Attendance</DialogTitle>
+          <DialogDescription>
+            {record?.studentName} • currently {record ? describeAttendance(record.details) : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as AttendanceStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ATTENDANCE_STATUSES.map(s => (
+                  <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {status === 'late' && (
+            <div className="space-y-1">
+              <Label htmlFor="edit-minutes-late">Minutes late</Label>
+              <Input
+                id="edit-minutes-late"
+                type="number"
+                min={0}
+                value={minutesLate}
+                onChange={(e) => setMinutesLate(e.target.value)}
+              />
+            </div>
+          )}
+
+          {status === 'excused' && (
+            <div className="space-y-1">
+              <Label>Reason for absence</Label>
+              <Select value={excuseCode} onValueChange={(value) => setExcuseCode(value as ExcuseCode)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXCUSE_REASONS.map(r => (
+                    <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="edit-reason">Why is this being changed?</Label>
+            <Textarea
+              id="edit-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Student arrived after the scan, note from parent"
+            />
+          </div>
+
+          {/* Change History */}
+          <div className="space-y-2 pt-2 border-t">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <History className="w-4 h-4" />
+              History
+            </div>
+            {historyLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : history && history.length > 0 ? (
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {history.map(entry => (
+                  <div key={entry.id} className="text-xs p-2 bg-muted/50 rounded">
+                    <div className="font-medium">
+                      {describeAttendance({ status: entry.old_status, minutes_late: entry.old_minutes_late, excuse_code: entry.old_excuse_code })}
+                      {' → '}
+                      {describeAttendance({ status: entry.new_status, minutes_late: entry.new_minutes_late, excuse_code: entry.new_excuse_code })}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {new Date(entry.changed_at).toLocaleString()} by {entry.changed_by_name ?? 'Unknown user'}
+                    </div>
+                    <div className="mt-1">"{entry.reason}"</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No changes since this was recorded</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!reason.trim() || updateRecord.isPending}>
+            {updateRecord.isPending ? 'Saving...' : 'Save Change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditAttendanceDialog;
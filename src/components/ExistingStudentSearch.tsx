@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Search, UserPlus } from 'lucide-react';
+import { useSearchStudents, StudentSearchResult } from '@/hooks/useClasses';
+
+interface ExistingStudentSearchProps {
+  enrolledStudentIds: Set<string>;
+  attachingId: string | null;
+  onAttach: (student: StudentSearchResult) => void;
+}
+
+const hasFaceData = (student: Pick<StudentSearchResult, 'facial_id' | 'face_templates'>) =>
+  !!student.facial_id || student.face_templates.length > 0;
+
+const ExistingStudentSearch = ({ enrolledStudentIds, attachingId, onAttach }: ExistingStudentSearchProps) => {
+  const [query, setQuery] = useState('');
+  const [term, setTerm] = useState('');
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timer = setTimeout(() => setTerm(query), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: results, isFetching } = useSearchStudents(term);
+  const searching = term.trim().length >= 2;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="student-search">Name or Student ID</Label>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            id="student-search"
+            placeholder="Search students in other classes"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      {searching && (
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {isFetching && !results && <p className="text-sm text-muted-foreground">Searching...</p>}
+          {results && results.length === 0 && (
+            <p className="text-sm text-muted-foreground">No students match "{term.trim()}"</p>
+          )}
+          {results?.map(student => {
+            const inClass = enrolledStudentIds.has(student.id);
+            const classNames = student.enrollments.filter(e => !e.unenrolled_at).map(e => e.classes?.name).filter(Boolean);
+            return (
+              <div key={student.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{student.full_name}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{student.student_id}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {hasFaceData(student) ? (
+                      <Badge variant="outline" className="text-xs text-success border-success/30">Face enrolled</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs text-warning border-warning/30">No face data</Badge>
+                    )}
+                    {classNames.length > 0 && (
+                      <Badge variant="outline" className="text-xs">{classNames.join(', ')}</Badge>
+                    )}
+                  </div>
+                </div>
+                {inClass ? (
+                  <Badge variant="outline" className="text-xs text-muted-foreground shrink-0">In class</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="shrink-0"
+                    onClick={() => onAttach(student)}
+                    disabled={attachingId !== null}
+                  >
+                    <UserPlus className="w-4 h-4 mr-1" />
+                    {attachingId === student.id ? 'Adding...' : 'Add'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExistingStudentSearch;
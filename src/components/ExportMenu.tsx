@@ -0,0 +1,48 @@
+import { ReactNode } from 'react';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { ExportFormat } from '@/lib/export';
+
+export interface ExportOption {
+  label: string;
+  onExport: (format: ExportFormat) => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  disabled?: boolean;
+  className?: string;
+  children?: ReactNode;
+}
+
+const ExportMenu = ({ options, disabled, className, children }: ExportMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className} disabled={disabled}>
+          <Download className="w-4 h-4 mr-2" />
+          {children ?? 'Export Data'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {options.map((option, index) => (
+          <div key={option.label}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{option.label}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => option.onExport('xlsx')}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel (.xlsx)
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => option.onExport('csv')}>
+              <FileText className="w-4 h-4 mr-2" />
+              CSV (.csv)
+            </DropdownMenuItem>
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
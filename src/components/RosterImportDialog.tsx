@@ -0,0 +1,198 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertTriangle, Download, FileUp } from 'lucide-react';
+import { useImportRoster, useStudentsByNumber } from '@/hooks/useClasses';
+import { parseRoster } from '@/lib/roster';
+import { downloadBlob } from '@/lib/export';
+
+const TEMPLATE_CSV = 'student_id,full_name,email,guardian_name,guardian_contact\r\nS1001,Ada Lovelace,ada@example.org,Anne Lovelace,555-0100\r\n';
+
+interface RosterImportDialogProps {
+  classId: string;
+  enrolledStudentNumbers: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RosterImportDialog = ({ classId, enrolledStudentNumbers, open, onOpenChange }: RosterImportDialogProps) => {
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const importRoster = useImportRoster();
+
+  const parsed = useMemo(() => (csvText.trim() ? parseRoster(csvText) : null), [csvText]);
+  const studentNumbers = useMemo(() => (parsed?.entries ?? []).map(e => e.student_id), [parsed]);
+  const { data: existingStudents, isLoading: checkingExisting } = useStudentsByNumber(studentNumbers);
+
+  const enrolled = useMemo(() => new Set(enrolledStudentNumbers), [enrolledStudentNumbers]);
+  const existing = useMemo(() => new Map((existingStudents ?? []).map(s => [s.student_id, s])), [existingStudents]);
+  const entries = parsed?.entries ?? [];
+  const newCount = entries.filter(e => !existing.has(e.student_id)).length;
+  const alreadyEnrolledCount = entries.filter(e => enrolled.has(e.student_id)).length;
+  // Archived students are skipped by the import; they have to be restored from their profile
+  const archivedCount = entries.filter(e => existing.get(e.student_id)?.archived_at).length;
+  const toEnrollCount = entries.length - alreadyEnrolledCount - archivedCount;
+
+  const reset = () => {
+    setCsvText('');
+    setFileName(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setCsvText(await file.text());
+  };
+
+  const handleImport = async () => {
+    try {
+      await importRoster.mutateAsync({ classId, entries });
+      handleOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Roster</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with <code>student_id</code> and <code>full_name</code> columns, plus optional <code>email</code>, <code>guardian_name</code> and <code>guardian_contact</code>. Faces can be enrolled afterwards.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" asChild>
+              <label className="cursor-pointer">
+                <FileUp className="w-4 h-4 mr-2" />
+                Choose CSV File
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => downloadBlob(new Blob([TEMPLATE_CSV], { type: 'text/csv;charset=utf-8' }), 'roster-template.csv')}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Template
+            </Button>
+            {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="roster-csv">Or paste CSV</Label>
+            <Textarea
+              id="roster-csv"
+              value={csvText}
+              onChange={(e) => {
+                setCsvText(e.target.value);
+                setFileName(null);
+              }}
+              placeholder={'student_id,full_name\nS1001,Ada Lovelace'}
+              className="font-mono text-xs h-24"
+            />
+          </div>
+
+          {parsed && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{entries.length} valid</Badge>
+                <Badge variant="outline" className="text-success border-success/30">{newCount} new students</Badge>
+                <Badge variant="outline">{entries.length - newCount} existing students</Badge>
+                {alreadyEnrolledCount > 0 && (
+                  <Badge variant="outline" className="text-muted-foreground">{alreadyEnrolledCount} already in class</Badge>
+                )}
+                {archivedCount > 0 && (
+                  <Badge variant="outline" className="text-warning border-warning/30">{archivedCount} archived, not enrolled</Badge>
+                )}
+                {parsed.issues.length > 0 && (
+                  <Badge variant="outline" className="text-warning border-warning/30">{parsed.issues.length} skipped</Badge>
+                )}
+              </div>
+
+              {parsed.issues.length > 0 && (
+                <div className="max-h-24 overflow-y-auto rounded-md bg-warning-bg/50 p-2 space-y-1">
+                  {parsed.issues.map(issue => (
+                    <div key={`${issue.line}-${issue.message}`} className="flex items-start gap-2 text-xs text-warning">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                      Line {issue.line}: {issue.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {entries.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Student ID</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead className="text-right">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map(entry => {
+                        const match = existing.get(entry.student_id);
+                        return (
+                          <TableRow key={entry.student_id}>
+                            <TableCell className="font-mono text-xs">{entry.student_id}</TableCell>
+                            <TableCell>
+                              {entry.full_name}
+                              {match && match.full_name !== entry.full_name && (
+                                <div className="text-xs text-muted-foreground">On file as {match.full_name}</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{entry.email ?? '—'}</TableCell>
+                            <TableCell className="text-right">
+                              {enrolled.has(entry.student_id) ? (
+                                <Badge variant="outline" className="text-xs text-muted-foreground">In class</Badge>
+                              ) : match?.archived_at ? (
+                                <Badge variant="outline" className="text-xs text-warning border-warning/30">Archived</Badge>
+                              ) : match ? (
+                                <Badge variant="outline" className="text-xs">Existing</Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-xs text-success border-success/30">New</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={toEnrollCount === 0 || checkingExisting || importRoster.isPending}>
+            {importRoster.isPending ? 'Importing...' : `Enroll ${toEnrollCount} Student${toEnrollCount === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RosterImportDialog;
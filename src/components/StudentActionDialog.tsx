@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { useArchiveStudent, useDeleteStudentPermanently, useRemoveFromClass } from '@/hooks/useClasses';
+
+export type StudentAction = 'remove' | 'archive' | 'delete';
+
+export interface StudentActionTarget {
+  id: string;
+  name: string;
+  studentId: string;
+}
+
+interface StudentActionDialogProps {
+  action: StudentAction | null;
+  student: StudentActionTarget | null;
+  classId: string;
+  className: string;
+  onClose: () => void;
+}
+
+const StudentActionDialog = ({ action, student, classId, className, onClose }: StudentActionDialogProps) => {
+  const [confirmation, setConfirmation] = useState('');
+  const removeFromClass = useRemoveFromClass();
+  const archiveStudent = useArchiveStudent();
+  const deleteStudent = useDeleteStudentPermanently();
+  const isPending = removeFromClass.isPending || archiveStudent.isPending || deleteStudent.isPending;
+
+  const close = () => {
+    setConfirmation('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!student || !action) return;
+    try {
+      if (action === 'remove') {
+        await removeFromClass.mutateAsync({ studentId: student.id, classId });
+      } else if (action === 'archive') {
+        await archiveStudent.mutateAsync({ studentId: student.id, archived: true });
+      } else {
+        await deleteStudent.mutateAsync({ studentId: student.id });
+      }
+      close();
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  // Deleting erases biometric data for good, so the student ID has to be typed back
+  const confirmed = action !== 'delete' || confirmation.trim() === student?.studentId;
+
+  return (
+    <AlertDialog open={!!action && !!student} onOpenChange={(open) => !open && !isPending && close()}>
+      <AlertDialogContent>
+        {action === 'remove' && (
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove from {className || 'Class'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{student?.name}</strong> will be taken off this class's roster and left out of future scans.
+              Their attendance history here and their other classes are kept, and you can restore them from Inactive Students.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+        )}
+        {action === 'archive' && (
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive Student</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{student?.name}</strong> will be hidden from every class roster and attendance scan, for example after leaving the school.
+              Their records and face data are kept, and they can be unarchived at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+        )}
+        {action === 'delete' && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Student Permanently</AlertDialogTitle>
+              <AlertDialogDescription>
+                This deletes <strong>{student?.name}</strong> from every class together with all of their attendance records,
+                and permanently erases their stored face data. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="confirm-student-id">
+                Type <span className="font-mono">{student?.studentId}</span> to confirm
+              </Label>
+              <Input
+                id="confirm-student-id"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          </>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Keep the dialog open until the change has gone through
+              e.preventDefault();
+              handleConfirm();
+            }}
+            className={action === 'archive' ? undefined : 'bg-destructive text-destructive-foreground hover:bg-destructive/90'}
+            disabled={isPending || !confirmed}
+          >
+            {isPending
+              ? 'Saving...'
+              : action === 'remove'
+                ? 'Remove from Class'
+                : action === 'archive'
+                  ? 'Archive'
+                  : 'Delete Permanently'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default StudentActionDialog;
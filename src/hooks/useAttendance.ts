@@ -0,0 +1,232 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { AttendanceStatus, ExcuseCode } from '@/lib/attendance';
+
+export interface AttendanceSession {
+  id: string;
+  class_id: string;
+  teacher_id: string;
+  date: string;
+  name: string;
+  total_students: number;
+  present_count: number;
+  late_count: number;
+  left_early_count: number;
+  remote_count: number;
+  excused_count: number;
+  absent_count: number;
+  created_at: string;
+}
+
+export interface AttendanceAuditEntry {
+  id: string;
+  record_id: string | null;
+  class_id: string;
+  student_id: string;
+  session_id: string | null;
+  date: string;
+  changed_by: string;
+  changed_by_name: string | null;
+  changed_at: string;
+  old_status: AttendanceStatus;
+  new_status: AttendanceStatus;
+  old_minutes_late: number | null;
+  new_minutes_late: number | null;
+  old_excuse_code: ExcuseCode | null;
+  new_excuse_code: ExcuseCode | null;
+  reason: string;
+}
+
+export interface StudentAttendanceRecord {
+  id: string;
+  class_id: string;
+  session_id: string;
+  date: string;
+  status: AttendanceStatus;
+  minutes_late: number | null;
+  excuse_code: ExcuseCode | null;
+  first_seen_at: string | null;
+  match_confidence: number | null;
+  recorded_at: string;
+  attendance_sessions: { name: string } | null;
+  classes: { name: string } | null;
+}
+
+// All named sessions taken for a class on one day, in the order they were scanned
+export const useAttendanceSessions = (classId: string, date: string) => {
+  return useQuery({
+    queryKey: ['attendance-sessions', classId, date],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_sessions')
+        .select('*')
+        .eq('class_id', classId)
+        .eq('date', date)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as AttendanceSession[];
+    },
+    enabled: !!classId && !!date
+  });
+};
+
+// Sessions on a day with corrected records; commit_attendance refuses to scan those again
+export const useAuditedSessionIds = (classId: string, date: string) => {
+  return useQuery({
+    queryKey: ['attendance-audited-sessions', classId, date],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_audit_log')
+        .select('session_id')
+        .eq('class_id', classId)
+        .eq('date', date);
+
+      if (error) throw error;
+      return new Set(data.map(row => row.session_id).filter((id): id is string => !!id));
+    },
+    enabled: !!classId && !!date
+  });
+};
+
+// Distinct days that have at least one session, for highlighting the calendar
+export const useSessionDates = (classId: string) => {
+  return useQuery({
+    queryKey: ['attendance-session-dates', classId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_sessions')
+        .select('date')
+        .eq('class_id', classId)
+        .order('date', { ascending: false });
+
+      if (error) throw error;
+      return Array.from(new Set(data.map(row => row.date)));
+    },
+    enabled: !!classId
+  });
+};
+
+// PostgREST caps each response (1000 rows by default), so long histories are fetched page by page
+const RANGE_PAGE_SIZE = 1000;
+
+// Every record for one student across all of the teacher's classes, newest first
+export const useStudentAttendance = (studentId: string) => {
+  return useQuery({
+    queryKey: ['student-attendance', studentId],
+    queryFn: async () => {
+      const records: StudentAttendanceRecord[] = [];
+      for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('attendance_records')
+          .select('*, attendance_sessions ( name ), classes ( name )')
+          .eq('student_id', studentId)
+          .order('date', { ascending: false })
+          .order('recorded_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(offset, offset + RANGE_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        records.push(...(data as unknown as StudentAttendanceRecord[]));
+        if (data.length < RANGE_PAGE_SIZE) return records;
+      }
+    },
+    enabled: !!studentId
+  });
+};
+
+export interface ClassAttendanceRecord {
+  id: string;
+  student_id: string;
+  date: string;
+  status: AttendanceStatus;
+  minutes_late: number | null;
+  excuse_code: ExcuseCode | null;
+  first_seen_at: string | null;
+  attendance_sessions: { name: string } | null;
+  students: { full_name: string; student_id: string } | null;
+}
+
+// All records for a class between two days (inclusive), oldest first
+export const useClassAttendanceRange = (classId: string, from: string, to: string) => {
+  return useQuery({
+    queryKey: ['class-attendance', classId, from, to],
+    queryFn: async () => {
+      const records: ClassAttendanceRecord[] = [];
+      for (let offset = 0; ; offset += RANGE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('attendance_records')
+          .select('id, student_id, date, status, minutes_late, excuse_code, first_seen_at, attendance_sessions ( name ), students ( full_name, student_id )')
+          .eq('class_id', classId)
+          .gte('date', from)
+          .lte('date', to)
+          .order('date', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + RANGE_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        records.push(...(data as unknown as ClassAttendanceRecord[]));
+        if (data.length < RANGE_PAGE_SIZE) return records;
+      }
+    },
+    enabled: !!classId && !!from && !!to
+  });
+};
+
+// Change history of one attendance record, newest first
+export const useAttendanceAuditLog = (recordId: string) => {
+  return useQuery({
+    queryKey: ['attendance-audit', recordId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('attendance_audit_log')
+        .select('*')
+        .eq('record_id', recordId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      return data as AttendanceAuditEntry[];
+    },
+    enabled: !!recordId
+  });
+};
+
+export const useUpdateAttendanceRecord = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (update: { recordId: string; status: AttendanceStatus; reason: string; minutesLate?: number | null; excuseCode?: ExcuseCode | null }) => {
+      const { data, error } = await supabase.rpc('update_attendance_record', {
+        record_id: update.recordId,
+        status: update.status,
+        reason: update.reason,
+        minutes_late: update.minutesLate ?? undefined,
+        excuse_code: update.excuseCode ?? undefined
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['class-attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-audit', variables.recordId] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-audited-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['student-attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Attendance updated",
+        description: "The change was saved to the audit log",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
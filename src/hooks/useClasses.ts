@@ -1,24 +1,49 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { FaceTemplateLabel } from '@/lib/face';
+import type { RosterEntry } from '@/lib/roster';
 
 export interface Class {
   id: string;
   name: string;
   subject: string;
   period: string;
+  start_time: string | null; // "HH:MM:SS", used to mark late arrivals
+  late_grace_minutes: number;
+  archived_at: string | null; // archived classes are hidden from the dashboard, their reports are kept
   teacher_id: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface TeacherProfile {
+  id: string;
+  full_name: string;
+  email: string;
+  school_name: string | null;
+}
+
+export interface FaceTemplate {
+  id: string;
+  student_id: string;
+  label: FaceTemplateLabel;
+  descriptor: string;
+  created_at: string;
+}
+
 export interface Student {
   id: string;
   student_id: string;
   full_name: string;
   facial_id: string | null;
+  email: string | null;
+  guardian_name: string | null;
+  guardian_contact: string | null;
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
+  face_templates?: FaceTemplate[];
 }
 
 export interface Enrollment {
@@ -26,9 +51,14 @@ export interface Enrollment {
   class_id: string;
   student_id: string;
   enrolled_at: string;
+  unenrolled_at: string | null; // set when the student was removed from the class
   students: Student;
 }
 
+export interface StudentProfile extends Student {
+  enrollments: (Omit<Enrollment, 'students'> & { classes: Class })[];
+}
+
 export const useClasses = () => {
   return useQuery({
     queryKey: ['classes'],
@@ -61,6 +91,26 @@ export const useClassById = (classId: string) => {
   });
 };
 
+// Profiles are only readable by their owner, so this resolves for the signed-in teacher's classes
+export const useTeacherProfile = (teacherId: string) => {
+  return useQuery({
+    queryKey: ['profile', teacherId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email, school_name')
+        .eq('id', teacherId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as TeacherProfile | null;
+    },
+    enabled: !!teacherId,
+    staleTime: 5 * 60 * 1000
+  });
+};
+
+// Students currently in the class: removed enrollments and archived students are left out
 export const useClassEnrollments = (classId: string) => {
   return useQuery({
     queryKey: ['enrollments', classId],
@@ -69,9 +119,11 @@ export const useClassEnrollments = (classId: string) => {
         .from('enrollments')
         .select(`
           *,
-          students (*)
+          students!inner (*, face_templates (*))
         `)
         .eq('class_id', classId)
+        .is('unenrolled_at', null)
+        .is('students.archived_at', null)
         .order('enrolled_at', { ascending: false });
 
       if (error) {
@@ -86,6 +138,51 @@ export const useClassEnrollments = (classId: string) => {
   });
 };
 
+// Students who were removed from the class or archived, so they can be restored or deleted
+export const useInactiveEnrollments = (classId: string) => {
+  return useQuery({
+    queryKey: ['enrollments', classId, 'inactive'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('enrollments')
+        .select(`
+          *,
+          students (*)
+        `)
+        .eq('class_id', classId)
+        .order('enrolled_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as Enrollment[]).filter(e => e.unenrolled_at || e.students.archived_at);
+    },
+    enabled: !!classId,
+    staleTime: 30000,
+    refetchOnWindowFocus: false
+  });
+};
+
+// One student with their face templates and every class they are enrolled in
+export const useStudentProfile = (studentId: string) => {
+  return useQuery({
+    queryKey: ['student', studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select(`
+          *,
+          face_templates (*),
+          enrollments (*, classes (*))
+        `)
+        .eq('id', studentId)
+        .single();
+
+      if (error) throw error;
+      return data as unknown as StudentProfile;
+    },
+    enabled: !!studentId
+  });
+};
+
 export const useCreateClass = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -124,6 +221,186 @@ export const useCreateClass = () => {
   });
 };
 
+export const useUpdateClass = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, changes }: { classId: string; changes: Partial<Pick<Class, 'name' | 'subject' | 'period' | 'start_time' | 'late_grace_minutes'>> }) => {
+      const { data, error } = await supabase
+        .from('classes')
+        .update(changes)
+        .eq('id', classId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.invalidateQueries({ queryKey: ['class', variables.classId] });
+      toast({
+        title: "Success",
+        description: "Class updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Archived classes stay readable, so their reports and attendance history remain available
+export const useArchiveClass = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, archived }: { classId: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('classes')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', classId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.invalidateQueries({ queryKey: ['class', variables.classId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: variables.archived ? "Class archived" : "Class restored",
+        description: variables.archived
+          ? "The class is hidden from your dashboard. Its reports are still available."
+          : "The class is back on your dashboard",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Copies a class and its current roster, e.g. to start a new term
+export const useDuplicateClass = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, name, subject, period }: { classId: string; name: string; subject?: string; period?: string }) => {
+      const { data, error } = await supabase.rpc('duplicate_class', {
+        class_id: classId,
+        name,
+        subject,
+        period
+      });
+
+      if (error) throw error;
+      return data as Class;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Class duplicated",
+        description: `${created.name} was created with the same roster`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export interface ClassRecordCounts {
+  enrollments: number;
+  sessions: number;
+  records: number;
+  classOnlyStudents: number; // Students who are in no other class
+}
+
+// How much would be lost by deleting a class, shown before the delete is confirmed
+export const useClassRecordCounts = (classId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['class', classId, 'record-counts'],
+    queryFn: async (): Promise<ClassRecordCounts> => {
+      const [enrollments, sessions, records, classOnlyStudents] = await Promise.all([
+        supabase.from('enrollments').select('id', { count: 'exact', head: true }).eq('class_id', classId),
+        supabase.from('attendance_sessions').select('id', { count: 'exact', head: true }).eq('class_id', classId),
+        supabase.from('attendance_records').select('id', { count: 'exact', head: true }).eq('class_id', classId),
+        supabase.rpc('count_class_only_students', { class_id: classId })
+      ]);
+
+      const error = enrollments.error ?? sessions.error ?? records.error ?? classOnlyStudents.error;
+      if (error) throw error;
+      return {
+        enrollments: enrollments.count ?? 0,
+        sessions: sessions.count ?? 0,
+        records: records.count ?? 0,
+        classOnlyStudents: classOnlyStudents.data ?? 0
+      };
+    },
+    enabled: !!classId && enabled
+  });
+};
+
+export interface ClassDeletionResult {
+  students: number;
+  face_templates: number;
+}
+
+// Enrollments, sessions and attendance records go with the class through ON DELETE CASCADE.
+// Students who are in no other class can be deleted along with it, otherwise nobody could purge them later.
+export const useDeleteClass = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, deleteClassOnlyStudents = false }: { classId: string; deleteClassOnlyStudents?: boolean }) => {
+      const { data, error } = await supabase.rpc('delete_class', {
+        class_id: classId,
+        delete_class_only_students: deleteClassOnlyStudents
+      });
+
+      if (error) throw error;
+      return data as unknown as ClassDeletionResult;
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.removeQueries({ queryKey: ['class', variables.classId] });
+      queryClient.removeQueries({ queryKey: ['enrollments', variables.classId] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Class deleted",
+        description: result.students > 0
+          ? `The class, its attendance history and ${result.students} student${result.students === 1 ? '' : 's'} only in this class were deleted`
+          : "The class and its attendance history were deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
 export const useCreateStudent = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -170,6 +447,232 @@ export const useCreateStudent = () => {
   });
 };
 
+export const useUpdateStudent = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ studentId, changes }: { studentId: string; changes: Partial<Pick<Student, 'student_id' | 'full_name' | 'facial_id' | 'email' | 'guardian_name' | 'guardian_contact'>> }) => {
+      const { data, error } = await supabase
+        .from('students')
+        .update(changes)
+        .eq('id', studentId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['student', variables.studentId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Students that already exist with any of the given school IDs, used to preview an import
+export const useStudentsByNumber = (studentNumbers: string[]) => {
+  return useQuery({
+    queryKey: ['students', 'by-number', studentNumbers],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, student_id, full_name, archived_at')
+        .in('student_id', studentNumbers);
+
+      if (error) throw error;
+      return data as Pick<Student, 'id' | 'student_id' | 'full_name' | 'archived_at'>[];
+    },
+    enabled: studentNumbers.length > 0
+  });
+};
+
+export interface StudentSearchResult extends Pick<Student, 'id' | 'student_id' | 'full_name' | 'facial_id'> {
+  face_templates: Pick<FaceTemplate, 'id'>[];
+  // Only the searching teacher's own classes are visible here
+  enrollments: { class_id: string; unenrolled_at: string | null; classes: Pick<Class, 'name'> | null }[];
+}
+
+// Students matching a name or school ID, so one child can be attached to several classes
+export const useSearchStudents = (term: string) => {
+  // Values are quoted in the PostgREST filter, so only quotes, backslashes and wildcards need removing
+  const pattern = term.replace(/["\\%*]/g, ' ').trim();
+
+  return useQuery({
+    queryKey: ['students', 'search', pattern],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, student_id, full_name, facial_id, face_templates (id), enrollments (class_id, unenrolled_at, classes (name))')
+        .or(`full_name.ilike."*${pattern}*",student_id.ilike."*${pattern}*"`)
+        .is('archived_at', null)
+        .order('full_name')
+        .limit(20);
+
+      if (error) throw error;
+      return data as unknown as StudentSearchResult[];
+    },
+    enabled: pattern.length >= 2,
+    staleTime: 30000
+  });
+};
+
+export interface StudentIdMatch extends StudentSearchResult {
+  archived_at: string | null;
+}
+
+// The student holding an exact school ID, archived or not, since the ID stays unique either way
+export const useStudentByNumber = (studentNumber: string) => {
+  const trimmed = studentNumber.trim();
+
+  return useQuery({
+    queryKey: ['students', 'by-number', trimmed],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('students')
+        .select('id, student_id, full_name, facial_id, archived_at, face_templates (id), enrollments (class_id, unenrolled_at, classes (name))')
+        .eq('student_id', trimmed)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as StudentIdMatch | null;
+    },
+    enabled: trimmed.length > 0,
+    staleTime: 30000
+  });
+};
+
+export interface RosterImportResult {
+  created: number;
+  enrolled: number;
+  archived: string[]; // School IDs of archived students, who are skipped rather than enrolled
+  already_enrolled: number;
+}
+
+export const useImportRoster = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, entries }: { classId: string; entries: RosterEntry[] }) => {
+      console.log('🔵 DATABASE: Importing roster:', { classId, count: entries.length });
+
+      const { data, error } = await supabase.rpc('import_roster', {
+        class_id: classId,
+        students: entries.map(e => ({
+          student_id: e.student_id,
+          full_name: e.full_name,
+          email: e.email,
+          guardian_name: e.guardian_name,
+          guardian_contact: e.guardian_contact
+        }))
+      });
+
+      if (error) throw error;
+      return data as unknown as RosterImportResult;
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments', variables.classId] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Roster imported",
+        description: `${result.enrolled} enrolled (${result.created} new), ${result.already_enrolled} already in the class` +
+          (result.archived.length > 0 ? `. Skipped ${result.archived.length} archived (${result.archived.join(', ')}); restore them from their profile first.` : ''),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useCreateFaceTemplates = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ studentId, templates }: { studentId: string; templates: { label: FaceTemplateLabel; descriptor: string }[] }) => {
+      console.log('🟣 DATABASE: Saving face templates:', { studentId, labels: templates.map(t => t.label) });
+      
+      const { data, error } = await supabase
+        .from('face_templates')
+        .insert(templates.map(t => ({ student_id: studentId, label: t.label, descriptor: t.descriptor })))
+        .select();
+
+      if (error) {
+        console.error('❌ DATABASE: Face template error:', error);
+        throw error;
+      }
+      console.log('✅ DATABASE: Face templates saved:', data?.length);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Adds a frontal template per student in one insert. Students without any face data also get
+// the descriptor as their primary facial_id.
+export const useAttachFaceDescriptors = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (attachments: { studentId: string; descriptor: string; setPrimary: boolean }[]) => {
+      console.log('🟣 DATABASE: Attaching photo descriptors:', attachments.length);
+
+      const { error: templateError } = await supabase
+        .from('face_templates')
+        .insert(attachments.map(a => ({ student_id: a.studentId, label: 'frontal', descriptor: a.descriptor })));
+      if (templateError) throw templateError;
+
+      for (const attachment of attachments.filter(a => a.setPrimary)) {
+        const { error } = await supabase
+          .from('students')
+          .update({ facial_id: attachment.descriptor })
+          .eq('id', attachment.studentId);
+        if (error) throw error;
+      }
+      return attachments.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['student'] });
+      toast({
+        title: "Faces enrolled",
+        description: `Saved face data for ${count} student${count === 1 ? '' : 's'}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
 export const useEnrollStudent = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -179,12 +682,14 @@ export const useEnrollStudent = () => {
       console.log('🟡 DATABASE: Enrolling student:', { classId, studentId });
       console.log('🟡 DATABASE: User ID:', (await supabase.auth.getUser()).data.user?.id);
       
+      // A student who was removed from the class earlier is restored rather than enrolled twice
       const { data, error } = await supabase
         .from('enrollments')
-        .insert({
+        .upsert({
           class_id: classId,
-          student_id: studentId
-        })
+          student_id: studentId,
+          unenrolled_at: null
+        }, { onConflict: 'class_id,student_id' })
         .select(`
           *,
           students (*)
@@ -234,38 +739,168 @@ export const useEnrollStudent = () => {
   });
 };
 
-export const useDeleteStudent = () => {
+// Takes a student off this class's roster only; their history and other classes are kept
+export const useRemoveFromClass = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   return useMutation({
     mutationFn: async ({ studentId, classId }: { studentId: string; classId: string }) => {
-      // First, delete the enrollment
-      const { error: enrollmentError } = await supabase
+      const { error } = await supabase
         .from('enrollments')
-        .delete()
+        .update({ unenrolled_at: new Date().toISOString() })
         .eq('student_id', studentId)
         .eq('class_id', classId);
 
-      if (enrollmentError) throw enrollmentError;
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments', variables.classId] });
+      queryClient.invalidateQueries({ queryKey: ['student', variables.studentId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Student removed",
+        description: "The student was removed from this class. Their attendance history is kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useRestoreEnrollment = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
-      // Then, delete the student record
-      const { error: studentError } = await supabase
-        .from('students')
-        .delete()
-        .eq('id', studentId);
+  return useMutation({
+    mutationFn: async ({ studentId, classId }: { studentId: string; classId: string }) => {
+      const { error } = await supabase
+        .from('enrollments')
+        .update({ unenrolled_at: null })
+        .eq('student_id', studentId)
+        .eq('class_id', classId);
 
-      if (studentError) throw studentError;
+      if (error) throw error;
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['enrollments', variables.classId] });
+      queryClient.invalidateQueries({ queryKey: ['student', variables.studentId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Student restored",
+        description: "The student is back on this class's roster",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Archiving hides a student from every class roster without deleting anything
+export const useArchiveStudent = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ studentId, archived }: { studentId: string; archived: boolean }) => {
+      // Server-side so teachers can't archive students who are also in other teachers' classes
+      const { error } = await supabase.rpc('set_student_archived', { student_id: studentId, archived });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
       queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['student', variables.studentId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
       toast({
-        title: "Success",
-        description: "Student deleted successfully",
+        title: variables.archived ? "Student archived" : "Student unarchived",
+        description: variables.archived
+          ? "The student was removed from all class rosters. Their records are kept."
+          : "The student is back on their class rosters",
       });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Unarchives a student and enrolls them in one of the caller's classes as a single step, so a
+// refused restore doesn't leave an invisible enrollment behind
+export const useRestoreStudentToClass = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ classId, studentId }: { classId: string; studentId: string }) => {
+      const { error } = await supabase.rpc('restore_student_to_class', { student_id: studentId, class_id: classId });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['student', variables.studentId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Student restored",
+        description: "The student is back on their class rosters, including this one",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export interface StudentDeletionResult {
+  face_templates: number;
+  attendance_records: number;
+}
+
+// Deletes the student everywhere, purging their face data along with their attendance history
+export const useDeleteStudentPermanently = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ studentId }: { studentId: string }) => {
+      const { data, error } = await supabase.rpc('delete_student_permanently', { student_id: studentId });
+
+      if (error) throw error;
+      return data as unknown as StudentDeletionResult;
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.removeQueries({ queryKey: ['student', variables.studentId] });
+      queryClient.invalidateQueries({ queryKey: ['class-attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      toast({
+        title: "Student deleted",
+        description: `Deleted ${result.attendance_records} attendance record${result.attendance_records === 1 ? '' : 's'} and all face data`,
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
         description: error.message,
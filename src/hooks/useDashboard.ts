@@ -0,0 +1,96 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionAttendedCount, toDateKey } from '@/lib/attendance';
+
+const TREND_DAYS = 30;
+
+export interface ClassTrendPoint {
+  date: string;
+  rate: number;
+}
+
+export interface ClassStats {
+  studentCount: number;
+  lastScanDate: string | null;
+  trend: ClassTrendPoint[]; // One point per day with sessions, oldest first
+}
+
+export interface DashboardStats {
+  totalStudents: number;
+  scansToday: number;
+  averageRate: number | null; // Over the last TREND_DAYS days
+  scannedTodayClassIds: string[];
+  classStats: Record<string, ClassStats>;
+}
+
+// Counts for the dashboard, computed from enrollments and recent attendance sessions of classes
+// that aren't archived
+export const useDashboardStats = () => {
+  return useQuery({
+    queryKey: ['dashboard-stats'],
+    queryFn: async (): Promise<DashboardStats> => {
+      const today = toDateKey(new Date());
+      const since = new Date();
+      since.setDate(since.getDate() - TREND_DAYS);
+
+      const [{ data: enrollments, error: enrollmentsError }, { data: sessions, error: sessionsError }] = await Promise.all([
+        supabase
+          .from('enrollments')
+          .select('class_id, student_id, students!inner (archived_at), classes!inner (archived_at)')
+          .is('unenrolled_at', null)
+          .is('students.archived_at', null)
+          .is('classes.archived_at', null),
+        supabase
+          .from('attendance_sessions')
+          .select('*, classes!inner (archived_at)')
+          .is('classes.archived_at', null)
+          .gte('date', toDateKey(since))
+          .order('date', { ascending: true })
+      ]);
+
+      if (enrollmentsError) throw enrollmentsError;
+      if (sessionsError) throw sessionsError;
+
+      const classStats: Record<string, ClassStats> = {};
+      const statsFor = (classId: string) => {
+        classStats[classId] ??= { studentCount: 0, lastScanDate: null, trend: [] };
+        return classStats[classId];
+      };
+
+      (enrollments ?? []).forEach(enrollment => {
+        statsFor(enrollment.class_id).studentCount++;
+      });
+
+      // Several sessions on one day are combined into a single trend point
+      const dailyTotals = new Map<string, { classId: string; date: string; attended: number; total: number }>();
+      let attended = 0;
+      let total = 0;
+      (sessions ?? []).forEach(session => {
+        const key = `${session.class_id}:${session.date}`;
+        const day = dailyTotals.get(key) ?? { classId: session.class_id, date: session.date, attended: 0, total: 0 };
+        day.attended += sessionAttendedCount(session);
+        day.total += session.total_students;
+        dailyTotals.set(key, day);
+        attended += sessionAttendedCount(session);
+        total += session.total_students;
+      });
+
+      dailyTotals.forEach(day => {
+        const stats = statsFor(day.classId);
+        stats.lastScanDate = day.date;
+        stats.trend.push({ date: day.date, rate: day.total > 0 ? Math.round((day.attended / day.total) * 100) : 0 });
+      });
+
+      const todaysSessions = (sessions ?? []).filter(session => session.date === today);
+
+      return {
+        totalStudents: new Set((enrollments ?? []).map(enrollment => enrollment.student_id)).size,
+        scansToday: todaysSessions.length,
+        averageRate: total > 0 ? Math.round((attended / total) * 100) : null,
+        scannedTodayClassIds: Array.from(new Set(todaysSessions.map(session => session.class_id))),
+        classStats
+      };
+    },
+    staleTime: 60000
+  });
+};
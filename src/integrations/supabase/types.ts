@@ -14,29 +14,137 @@ export type Database = {
   }
   public: {
     Tables: {
+      attendance_audit_log: {
+        Row: {
+          changed_at: string
+          changed_by: string
+          changed_by_name: string | null
+          class_id: string
+          date: string
+          id: string
+          new_excuse_code: string | null
+          new_minutes_late: number | null
+          new_status: Database["public"]["Enums"]["attendance_status"]
+          old_excuse_code: string | null
+          old_minutes_late: number | null
+          old_status: Database["public"]["Enums"]["attendance_status"]
+          reason: string
+          record_id: string | null
+          session_id: string | null
+          student_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by: string
+          changed_by_name?: string | null
+          class_id: string
+          date: string
+          id?: string
+          new_excuse_code?: string | null
+          new_minutes_late?: number | null
+          new_status: Database["public"]["Enums"]["attendance_status"]
+          old_excuse_code?: string | null
+          old_minutes_late?: number | null
+          old_status: Database["public"]["Enums"]["attendance_status"]
+          reason: string
+          record_id?: string | null
+          session_id?: string | null
+          student_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string
+          changed_by_name?: string | null
+          class_id?: string
+          date?: string
+          id?: string
+          new_excuse_code?: string | null
+          new_minutes_late?: number | null
+          new_status?: Database["public"]["Enums"]["attendance_status"]
+          old_excuse_code?: string | null
+          old_minutes_late?: number | null
+          old_status?: Database["public"]["Enums"]["attendance_status"]
+          reason?: string
+          record_id?: string | null
+          session_id?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_audit_log_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_records: {
         Row: {
           class_id: string
           date: string
+          excuse_code: string | null
+          first_seen_at: string | null
           id: string
+          match_confidence: number | null
+          minutes_late: number | null
           recorded_at: string
-          status: string
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Insert: {
           class_id: string
           date?: string
+          excuse_code?: string | null
+          first_seen_at?: string | null
           id?: string
+          match_confidence?: number | null
+          minutes_late?: number | null
           recorded_at?: string
-          status: string
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Update: {
           class_id?: string
           date?: string
+          excuse_code?: string | null
+          first_seen_at?: string | null
           id?: string
+          match_confidence?: number | null
+          minutes_late?: number | null
           recorded_at?: string
-          status?: string
+          session_id?: string
+          status?: Database["public"]["Enums"]["attendance_status"]
           student_id?: string
         }
         Relationships: [
@@ -47,6 +155,13 @@ export type Database = {
             referencedRelation: "classes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attendance_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_records_student_id_fkey"
             columns: ["student_id"]
@@ -62,8 +177,13 @@ export type Database = {
           class_id: string
           created_at: string
           date: string
+          excused_count: number
           id: string
+          late_count: number
+          left_early_count: number
+          name: string
           present_count: number
+          remote_count: number
           teacher_id: string
           total_students: number
         }
@@ -72,8 +192,13 @@ export type Database = {
           class_id: string
           created_at?: string
           date?: string
+          excused_count?: number
           id?: string
+          late_count?: number
+          left_early_count?: number
+          name?: string
           present_count?: number
+          remote_count?: number
           teacher_id: string
           total_students?: number
         }
@@ -82,8 +207,13 @@ export type Database = {
           class_id?: string
           created_at?: string
           date?: string
+          excused_count?: number
           id?: string
+          late_count?: number
+          left_early_count?: number
+          name?: string
           present_count?: number
+          remote_count?: number
           teacher_id?: string
           total_students?: number
         }
@@ -106,28 +236,37 @@ export type Database = {
       }
       classes: {
         Row: {
+          archived_at: string | null
           created_at: string
           id: string
+          late_grace_minutes: number
           name: string
           period: string | null
+          start_time: string | null
           subject: string | null
           teacher_id: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           id?: string
+          late_grace_minutes?: number
           name: string
           period?: string | null
+          start_time?: string | null
           subject?: string | null
           teacher_id: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           id?: string
+          late_grace_minutes?: number
           name?: string
           period?: string | null
+          start_time?: string | null
           subject?: string | null
           teacher_id?: string
           updated_at?: string
@@ -148,18 +287,21 @@ export type Database = {
           enrolled_at: string
           id: string
           student_id: string
+          unenrolled_at: string | null
         }
         Insert: {
           class_id: string
           enrolled_at?: string
           id?: string
           student_id: string
+          unenrolled_at?: string | null
         }
         Update: {
           class_id?: string
           enrolled_at?: string
           id?: string
           student_id?: string
+          unenrolled_at?: string | null
         }
         Relationships: [
           {
@@ -178,6 +320,38 @@ export type Database = {
           },
         ]
       }
+      face_templates: {
+        Row: {
+          created_at: string
+          descriptor: string
+          id: string
+          label: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          descriptor: string
+          id?: string
+          label: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          descriptor?: string
+          id?: string
+          label?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "face_templates_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -210,25 +384,37 @@ export type Database = {
       }
       students: {
         Row: {
+          archived_at: string | null
           created_at: string
+          email: string | null
           facial_id: string | null
           full_name: string
+          guardian_contact: string | null
+          guardian_name: string | null
           id: string
           student_id: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          email?: string | null
           facial_id?: string | null
           full_name: string
+          guardian_contact?: string | null
+          guardian_name?: string | null
           id?: string
           student_id: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          email?: string | null
           facial_id?: string | null
           full_name?: string
+          guardian_contact?: string | null
+          guardian_name?: string | null
           id?: string
           student_id?: string
           updated_at?: string
@@ -240,12 +426,146 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      commit_attendance: {
+        Args: {
+          class_id: string
+          date: string
+          records: Json
+          session_name?: string
+        }
+        Returns: {
+          absent_count: number
+          class_id: string
+          created_at: string
+          date: string
+          excused_count: number
+          id: string
+          late_count: number
+          left_early_count: number
+          name: string
+          present_count: number
+          remote_count: number
+          teacher_id: string
+          total_students: number
+        }
+      }
+      count_class_only_students: {
+        Args: {
+          class_id: string
+        }
+        Returns: number
+      }
+      delete_class: {
+        Args: {
+          class_id: string
+          delete_class_only_students?: boolean
+        }
+        Returns: Json
+      }
+      delete_student_permanently: {
+        Args: {
+          student_id: string
+        }
+        Returns: Json
+      }
+      duplicate_class: {
+        Args: {
+          class_id: string
+          name: string
+          period?: string
+          subject?: string
+        }
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          id: string
+          late_grace_minutes: number
+          name: string
+          period: string | null
+          start_time: string | null
+          subject: string | null
+          teacher_id: string
+          updated_at: string
+        }
+      }
+      import_roster: {
+        Args: {
+          class_id: string
+          students: Json
+        }
+        Returns: Json
+      }
+      restore_student_to_class: {
+        Args: {
+          class_id: string
+          student_id: string
+        }
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          email: string | null
+          facial_id: string | null
+          full_name: string
+          guardian_contact: string | null
+          guardian_name: string | null
+          id: string
+          student_id: string
+          updated_at: string
+        }
+      }
+      set_student_archived: {
+        Args: {
+          archived: boolean
+          student_id: string
+        }
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          email: string | null
+          facial_id: string | null
+          full_name: string
+          guardian_contact: string | null
+          guardian_name: string | null
+          id: string
+          student_id: string
+          updated_at: string
+        }
+      }
+      update_attendance_record: {
+        Args: {
+          excuse_code?: string
+          minutes_late?: number
+          reason: string
+          record_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
+        }
+        Returns: {
+          class_id: string
+          date: string
+          excuse_code: string | null
+          first_seen_at: string | null
+          id: string
+          match_confidence: number | null
+          minutes_late: number | null
+          recorded_at: string
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
+          student_id: string
+        }
+      }
       user_owns_class: {
         Args: { class_id: string }
         Returns: boolean
       }
     }
     Enums: {
+      attendance_status:
+        | "present"
+        | "late"
+        | "left_early"
+        | "remote"
+        | "excused"
+        | "absent"
       user_role: "teacher" | "admin"
     }
     CompositeTypes: {
@@ -374,6 +694,14 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      attendance_status: [
+        "present",
+        "late",
+        "left_early",
+        "remote",
+        "excused",
+        "absent",
+      ],
       user_role: ["teacher", "admin"],
     },
   },
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { solveAssignment } from './assignment';
+
+const totalCost = (cost: number[][], columns: number[]) =>
+	columns.reduce((sum, column, row) => sum + cost[row][column], 0);
+
+describe('solveAssignment', () => {
+	it('returns nothing for an empty matrix', () => {
+		expect(solveAssignment([])).toEqual([]);
+	});
+
+	it('finds the optimal assignment where greedy picking does not', () => {
+		// Greedy takes row 0 -> column 0 (cost 1) and is then forced into 100
+		const cost = [
+			[1, 2],
+			[3, 100],
+		];
+		const columns = solveAssignment(cost);
+		expect(columns).toEqual([1, 0]);
+		expect(totalCost(cost, columns)).toBe(5);
+	});
+
+	it('solves the classic 3x3 example', () => {
+		const cost = [
+			[4, 1, 3],
+			[2, 0, 5],
+			[3, 2, 2],
+		];
+		const columns = solveAssignment(cost);
+		expect(new Set(columns).size).toBe(3);
+		expect(totalCost(cost, columns)).toBe(5);
+	});
+
+	it('leaves extra columns unused when there are more columns than rows', () => {
+		const cost = [
+			[9, 1, 9, 9],
+			[9, 9, 9, 2],
+		];
+		expect(solveAssignment(cost)).toEqual([1, 3]);
+	});
+
+	it('rejects matrices with fewer columns than rows', () => {
+		expect(() => solveAssignment([[1], [2]])).toThrow(/at least as many columns as rows/);
+	});
+});
@@ -0,0 +1,70 @@
+// Minimum-cost assignment (Hungarian / Kuhn-Munkres), used to pair faces with students
+
+/**
+ * Assign each row to a distinct column so the summed cost is minimal.
+ * Needs at least as many columns as rows. Returns the column index chosen for each row.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+	const n = cost.length;
+	if (n === 0) return [];
+	const m = cost[0].length;
+	if (m < n) {
+		throw new Error('solveAssignment - cost matrix needs at least as many columns as rows');
+	}
+
+	// Potentials and matching are 1-indexed; column 0 is a sentinel
+	const u = new Array<number>(n + 1).fill(0);
+	const v = new Array<number>(m + 1).fill(0);
+	const p = new Array<number>(m + 1).fill(0); // Row matched to each column
+	const way = new Array<number>(m + 1).fill(0);
+
+	for (let i = 1; i <= n; i++) {
+		p[0] = i;
+		let j0 = 0;
+		const minv = new Array<number>(m + 1).fill(Infinity);
+		const used = new Array<boolean>(m + 1).fill(false);
+
+		do {
+			used[j0] = true;
+			const i0 = p[j0];
+			let delta = Infinity;
+			let j1 = 0;
+
+			for (let j = 1; j <= m; j++) {
+				if (used[j]) continue;
+				const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+				if (reduced < minv[j]) {
+					minv[j] = reduced;
+					way[j] = j0;
+				}
+				if (minv[j] < delta) {
+					delta = minv[j];
+					j1 = j;
+				}
+			}
+
+			for (let j = 0; j <= m; j++) {
+				if (used[j]) {
+					u[p[j]] += delta;
+					v[j] -= delta;
+				} else {
+					minv[j] -= delta;
+				}
+			}
+			j0 = j1;
+		} while (p[j0] !== 0);
+
+		// Flip the augmenting path
+		do {
+			const j1 = way[j0];
+			p[j0] = p[j1];
+			j0 = j1;
+		} while (j0 !== 0);
+	}
+
+	const result = new Array<number>(n).fill(-1);
+	for (let j = 1; j <= m; j++) {
+		if (p[j] !== 0) result[p[j] - 1] = j - 1;
+	}
+	return result;
+}
@@ -0,0 +1,146 @@
+// Shared attendance vocabulary used by the scanner, results and reports.
+
+export const DEFAULT_SESSION_NAME = 'Start of class';
+
+// Suggestions for the scanner; teachers can type any other name
+export const SESSION_NAME_PRESETS = ['Start of class', 'After break', 'Morning roll', 'Afternoon roll'];
+
+export function normalizeSessionName(name: string): string {
+	const trimmed = name.trim().replace(/\s+/g, ' ');
+	return trimmed || DEFAULT_SESSION_NAME;
+}
+
+// Mirrors the attendance_status enum in the database
+export type AttendanceStatus = 'present' | 'late' | 'left_early' | 'remote' | 'excused' | 'absent';
+
+export interface AttendanceStatusInfo {
+	value: AttendanceStatus;
+	label: string;
+	code: string; // Register code used in exports
+	attended: boolean; // Counts towards the attendance rate
+}
+
+export const ATTENDANCE_STATUSES: AttendanceStatusInfo[] = [
+	{ value: 'present', label: 'Present', code: 'P', attended: true },
+	{ value: 'late', label: 'Late', code: 'L', attended: true },
+	{ value: 'left_early', label: 'Left early', code: 'LE', attended: true },
+	{ value: 'remote', label: 'Remote', code: 'R', attended: true },
+	{ value: 'excused', label: 'Excused', code: 'E', attended: false },
+	{ value: 'absent', label: 'Absent', code: 'A', attended: false },
+];
+
+// Reason codes for excused absences, kept stable for state reporting
+export type ExcuseCode = 'illness' | 'medical' | 'family' | 'school_activity' | 'religious' | 'other';
+
+export const EXCUSE_REASONS: { value: ExcuseCode; label: string }[] = [
+	{ value: 'illness', label: 'Illness' },
+	{ value: 'medical', label: 'Medical appointment' },
+	{ value: 'family', label: 'Family emergency' },
+	{ value: 'school_activity', label: 'School activity' },
+	{ value: 'religious', label: 'Religious observance' },
+	{ value: 'other', label: 'Other' },
+];
+
+export interface AttendanceDetails {
+	status: AttendanceStatus;
+	minutes_late?: number | null;
+	excuse_code?: ExcuseCode | null;
+}
+
+export function getStatusInfo(status: AttendanceStatus): AttendanceStatusInfo {
+	return ATTENDANCE_STATUSES.find(s => s.value === status) ?? ATTENDANCE_STATUSES[ATTENDANCE_STATUSES.length - 1];
+}
+
+export function isAttended(status: AttendanceStatus): boolean {
+	return getStatusInfo(status).attended;
+}
+
+// Human-readable status including its detail, e.g. "Late (12 min)" or "Excused: Illness"
+export function describeAttendance(details: AttendanceDetails): string {
+	const { label } = getStatusInfo(details.status);
+	if (details.status === 'late' && details.minutes_late) {
+		return `${label} (${details.minutes_late} min)`;
+	}
+	if (details.status === 'excused' && details.excuse_code) {
+		const reason = EXCUSE_REASONS.find(r => r.value === details.excuse_code);
+		return reason ? `${label}: ${reason.label}` : label;
+	}
+	return label;
+}
+
+// Drops details that don't apply to the status so the database constraints hold
+export function normalizeAttendanceDetails(details: AttendanceDetails): AttendanceDetails {
+	return {
+		status: details.status,
+		minutes_late: details.status === 'late' && details.minutes_late ? Math.max(0, Math.round(details.minutes_late)) : null,
+		excuse_code: details.status === 'excused' ? details.excuse_code ?? 'other' : null,
+	};
+}
+
+// Per-status totals kept on attendance_sessions
+export interface SessionTotals {
+	total_students: number;
+	present_count: number;
+	late_count: number;
+	left_early_count: number;
+	remote_count: number;
+	excused_count: number;
+	absent_count: number;
+}
+
+export function sessionAttendedCount(totals: SessionTotals): number {
+	return totals.present_count + totals.late_count + totals.left_early_count + totals.remote_count;
+}
+
+// Only the session at the start of class is measured against the class start time. Later sessions
+// (after a break, an afternoon roll) need their own start time, otherwise nobody is marked late.
+export function defaultSessionStartTime(sessionName: string, classStartTime: string | null): string | null {
+	return normalizeSessionName(sessionName) === DEFAULT_SESSION_NAME ? classStartTime : null;
+}
+
+// Minutes after the session start time, or 0 when the student arrived within the grace period.
+// startTime is a wall-clock "HH:MM[:SS]" on the same local day as the arrival.
+export function computeMinutesLate(arrival: Date, startTime: string | null, graceMinutes: number): number {
+	if (!startTime) return 0;
+	const [hours, minutes, seconds = 0] = startTime.split(':').map(Number);
+	if (Number.isNaN(hours) || Number.isNaN(minutes)) return 0;
+
+	const start = new Date(arrival);
+	start.setHours(hours, minutes, seconds, 0);
+	const minutesAfterStart = Math.floor((arrival.getTime() - start.getTime()) / 60000);
+	return minutesAfterStart > graceMinutes ? minutesAfterStart : 0;
+}
+
+export function formatArrivalTime(firstSeenAt: string | Date): string {
+	return new Date(firstSeenAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Attendance days are local calendar days stored as "YYYY-MM-DD"
+export function toDateKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateKey(key: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+	if (!match) return null;
+	const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	return toDateKey(date) === key ? date : null;
+}
+
+// Share of records that count as attended, as a whole percentage; null when there is nothing to rate
+export function attendanceRate(statuses: AttendanceStatus[]): number | null {
+	if (statuses.length === 0) return null;
+	return Math.round((statuses.filter(isAttended).length / statuses.length) * 100);
+}
+
+// When a day has several sessions, the least favourable status describes the day
+const DAY_STATUS_SEVERITY: AttendanceStatus[] = ['present', 'remote', 'left_early', 'late', 'excused', 'absent'];
+
+export function worstStatus(statuses: AttendanceStatus[]): AttendanceStatus {
+	return statuses.reduce<AttendanceStatus>(
+		(worst, status) => (DAY_STATUS_SEVERITY.indexOf(status) > DAY_STATUS_SEVERITY.indexOf(worst) ? status : worst),
+		'present'
+	);
+}
@@ -0,0 +1,128 @@
+// Attendance exports for the school office: a daily sheet (one row per record) and a register
+// matrix (students × dates with status codes), written as CSV or XLSX in the browser.
+
+import { ATTENDANCE_STATUSES, AttendanceStatus, EXCUSE_REASONS, ExcuseCode, attendanceRate, formatArrivalTime, getStatusInfo } from './attendance';
+import { Sheet, SheetCell, buildXlsx } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportStudent {
+	id: string;
+	studentNumber: string;
+	name: string;
+}
+
+export interface ExportRecord {
+	student_id: string;
+	date: string;
+	session_name: string;
+	status: AttendanceStatus;
+	minutes_late?: number | null;
+	excuse_code?: ExcuseCode | null;
+	first_seen_at?: string | null;
+}
+
+function byName(a: ExportStudent, b: ExportStudent): number {
+	return a.name.localeCompare(b.name);
+}
+
+export function buildDailySheet(records: ExportRecord[], students: ExportStudent[]): SheetCell[][] {
+	const studentsById = new Map(students.map(student => [student.id, student]));
+	const rows = records
+		.map(record => ({ record, student: studentsById.get(record.student_id) }))
+		.sort((a, b) =>
+			a.record.date.localeCompare(b.record.date)
+			|| a.record.session_name.localeCompare(b.record.session_name)
+			|| (a.student?.name ?? '').localeCompare(b.student?.name ?? '')
+		)
+		.map(({ record, student }) => [
+			record.date,
+			record.session_name,
+			student?.studentNumber ?? '',
+			student?.name ?? 'Unknown student',
+			getStatusInfo(record.status).code,
+			getStatusInfo(record.status).label,
+			record.status === 'late' ? record.minutes_late ?? null : null,
+			record.status === 'excused' ? EXCUSE_REASONS.find(r => r.value === record.excuse_code)?.label ?? '' : '',
+			record.first_seen_at ? formatArrivalTime(record.first_seen_at) : '',
+		]);
+
+	return [['Date', 'Session', 'Student ID', 'Name', 'Code', 'Status', 'Minutes Late', 'Excuse', 'Arrived'], ...rows];
+}
+
+// One row per student and one column per day that has records. A day with several sessions
+// lists each session's code in session-name order, e.g. "P/L".
+export function buildRegisterMatrix(records: ExportRecord[], students: ExportStudent[]): SheetCell[][] {
+	const dates = Array.from(new Set(records.map(r => r.date))).sort();
+	const cells = new Map<string, ExportRecord[]>();
+	records.forEach(record => {
+		const key = `${record.student_id}|${record.date}`;
+		cells.set(key, [...(cells.get(key) ?? []), record]);
+	});
+
+	const header: SheetCell[] = ['Student ID', 'Name', ...dates, ...ATTENDANCE_STATUSES.map(s => s.code), 'Rate %'];
+	const rows = [...students].sort(byName).map(student => {
+		const studentRecords = records.filter(r => r.student_id === student.id);
+		const codes = dates.map(date =>
+			(cells.get(`${student.id}|${date}`) ?? [])
+				.sort((a, b) => a.session_name.localeCompare(b.session_name))
+				.map(r => getStatusInfo(r.status).code)
+				.join('/')
+		);
+		const totals = ATTENDANCE_STATUSES.map(s => studentRecords.filter(r => r.status === s.value).length);
+		return [student.studentNumber, student.name, ...codes, ...totals, attendanceRate(studentRecords.map(r => r.status))];
+	});
+
+	return [header, ...rows];
+}
+
+export function registerKeySheet(): Sheet {
+	return {
+		name: 'Key',
+		rows: [['Code', 'Status'], ...ATTENDANCE_STATUSES.map(s => [s.code, s.label])],
+	};
+}
+
+// Text starting with these is run as a formula by Excel and Sheets (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: SheetCell): string {
+	if (value === null || value === undefined) return '';
+	// Numbers are written as-is so negative values stay numeric
+	const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: SheetCell[][]): string {
+	return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	// Let the download start before releasing the URL
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// "Period 3 Biology" + "2025-09-01" -> "period-3-biology_2025-09-01"
+export function exportFileName(parts: string[], extension: ExportFormat | 'pdf'): string {
+	const slug = parts
+		.map(part => part.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''))
+		.filter(Boolean)
+		.join('_');
+	return `${slug || 'attendance'}.${extension}`;
+}
+
+// CSV only carries the first sheet; the byte order mark makes Excel read it as UTF-8
+export function downloadSheets(sheets: Sheet[], filename: string, format: ExportFormat) {
+	if (format === 'csv') {
+		downloadBlob(new Blob(['\uFEFF', toCsv(sheets[0]?.rows ?? [])], { type: 'text/csv;charset=utf-8' }), filename);
+	} else {
+		downloadBlob(buildXlsx(sheets), filename);
+	}
+}
@@ -1,137 +1,344 @@
 import * as faceapi from 'face-api.js';
+import { computeTiles, nonMaxSuppression, DEFAULT_TILING, TilingOptions } from './tiling';
+import { solveAssignment } from './assignment';
 
 export type FaceDescriptor = Float32Array;
 
-let modelsLoaded = false;
-let modelLoadingPromise: Promise<void> | null = null;
+export type FaceDetectorBackend = 'tiny' | 'ssd';
 
-export async function loadFaceModels(): Promise<void> {
-	if (modelsLoaded) return;
+// Per-device detector choice: TinyFaceDetector is fast, SSD MobileNet finds smaller faces
+export interface FaceDetectorConfig {
+	backend: FaceDetectorBackend;
+	inputSize: number; // TinyFaceDetector only, must be divisible by 32
+	minConfidence: number;
+	tiled: boolean; // Multi-scale tiled scan for large rooms, several detector passes per frame
+}
+
+export const TINY_INPUT_SIZES = [160, 224, 320, 416, 512, 608];
+
+export const DEFAULT_DETECTOR_CONFIG: FaceDetectorConfig = {
+	backend: 'tiny',
+	inputSize: 224,
+	minConfidence: 0.1,
+	tiled: false,
+};
+
+const DETECTOR_CONFIG_KEY = 'faceattend.detectorConfig';
+
+export function getFaceDetectorConfig(): FaceDetectorConfig {
+	// Workers have no localStorage; they receive the config with each request
+	if (typeof localStorage === 'undefined') return DEFAULT_DETECTOR_CONFIG;
+	try {
+		const stored = localStorage.getItem(DETECTOR_CONFIG_KEY);
+		return stored ? { ...DEFAULT_DETECTOR_CONFIG, ...JSON.parse(stored) } : DEFAULT_DETECTOR_CONFIG;
+	} catch {
+		return DEFAULT_DETECTOR_CONFIG;
+	}
+}
+
+export function setFaceDetectorConfig(config: FaceDetectorConfig): void {
+	localStorage.setItem(DETECTOR_CONFIG_KEY, JSON.stringify(config));
+}
+
+const modelLoadingPromises = new Map<FaceDetectorBackend, Promise<FaceDetectorBackend>>();
+let ssdUnavailable = false;
+
+function detectorNet(backend: FaceDetectorBackend) {
+	return backend === 'ssd' ? faceapi.nets.ssdMobilenetv1 : faceapi.nets.tinyFaceDetector;
+}
+
+// The backend that will actually run: SSD falls back to Tiny when its weights are missing
+export function resolveDetectorBackend(backend: FaceDetectorBackend): FaceDetectorBackend {
+	return backend === 'ssd' && ssdUnavailable ? 'tiny' : backend;
+}
+
+async function loadNet(net: faceapi.NeuralNetwork<unknown>, name: string, url: string): Promise<void> {
+	if (net.isLoaded) return;
+	await net.loadFromUri(url).catch(err => {
+		console.error(`Error loading ${name}:`, err);
+		throw err;
+	});
+}
+
+// Resolves with the detector that was actually loaded, so callers can tell when SSD fell back to Tiny
+export async function loadFaceModels(backend: FaceDetectorBackend = 'tiny'): Promise<FaceDetectorBackend> {
+	backend = resolveDetectorBackend(backend);
 	
-	// If already loading, return the existing promise
-	if (modelLoadingPromise) {
-		return modelLoadingPromise;
+	// If already loaded or loading, return the existing promise
+	const existing = modelLoadingPromises.get(backend);
+	if (existing) {
+		return existing;
 	}
 	
 	const MODEL_URL = '/models';
 	
-	modelLoadingPromise = (async () => {
+	const modelLoadingPromise = (async () => {
 		try {
-			console.log('Loading face models from:', MODEL_URL);
+			console.log(`Loading face models (${backend} detector) from:`, MODEL_URL);
 			await Promise.all([
-				faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL).catch(err => {
-					console.error('Error loading tinyFaceDetector:', err);
-					throw err;
-				}),
-				faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL).catch(err => {
-					console.error('Error loading faceLandmark68Net:', err);
-					throw err;
-				}),
-				faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL).catch(err => {
-					console.error('Error loading faceRecognitionNet:', err);
-					throw err;
-				}),
+				loadNet(detectorNet(backend), backend === 'ssd' ? 'ssdMobilenetv1' : 'tinyFaceDetector', MODEL_URL),
+				loadNet(faceapi.nets.faceLandmark68Net, 'faceLandmark68Net', MODEL_URL),
+				loadNet(faceapi.nets.faceRecognitionNet, 'faceRecognitionNet', MODEL_URL),
 			]);
-			modelsLoaded = true;
 			console.log('Face models loaded successfully');
+			return backend;
 		} catch (error) {
+			modelLoadingPromises.delete(backend); // Reset on error so it can be retried
+			
+			if (backend === 'ssd' && !detectorNet('ssd').isLoaded) {
+				console.warn('⚠️ SSD MobileNet weights not available, falling back to TinyFaceDetector');
+				ssdUnavailable = true;
+				return loadFaceModels('tiny');
+			}
+			
 			console.error('Failed to load face models:', error);
-			modelLoadingPromise = null; // Reset on error so it can be retried
 			throw new Error('Failed to load face recognition models. Please check if model files are available.');
 		}
 	})();
 	
+	modelLoadingPromises.set(backend, modelLoadingPromise);
 	return modelLoadingPromise;
 }
 
 // Preload models for faster startup
-export function preloadFaceModels(): void {
-	if (!modelsLoaded && !modelLoadingPromise) {
-		loadFaceModels().catch(console.error);
+export function preloadFaceModels(backend: FaceDetectorBackend = 'tiny'): void {
+	if (!modelLoadingPromises.has(resolveDetectorBackend(backend))) {
+		loadFaceModels(backend).catch(console.error);
 	}
 }
 
+// Enrollment detection without the quality report
 export async function detectSingleFaceDescriptor(
 	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
 ): Promise<FaceDescriptor | null> {
 	try {
-		await loadFaceModels();
-		console.log('Starting face detection...');
-		
-		// Check if input is ready
-		if (!input) {
-			console.log('❌ No input element provided');
-			return null;
-		}
-		
-		// For video elements, check if they're ready
-		if (input instanceof HTMLVideoElement) {
-			if (input.readyState < 2) {
-				console.log('❌ Video not ready, waiting...');
-				await new Promise(resolve => {
-					input.addEventListener('loadeddata', resolve, { once: true });
-					setTimeout(resolve, 3000); // 3 second timeout
-				});
-			}
-		}
-		
-		console.log('🎯 Attempting face detection...');
-		
-		// Add timeout to prevent hanging
-		const detectionPromise = faceapi
-			.detectSingleFace(input, new faceapi.TinyFaceDetectorOptions({ 
-				inputSize: 224, // Smaller input size for faster processing
-				scoreThreshold: 0.5  // Standard threshold
-			}))
-			.withFaceLandmarks()
-			.withFaceDescriptor();
-		
-		// Add 5 second timeout
-		const timeoutPromise = new Promise((_, reject) => 
-			setTimeout(() => reject(new Error('Face detection timeout')), 5000)
-		);
-		
-		const detection = await Promise.race([detectionPromise, timeoutPromise]) as any;
-		
-		if (!detection?.descriptor) {
-			console.log('❌ No face detected or no descriptor available');
+		const result = await detectSingleFaceWithQuality(input);
+		if (!result) {
 			return null;
 		}
 		
-		console.log('✅ Face detected successfully!');
-		
-		// Validate the descriptor
-		const descriptor = detection.descriptor;
-		console.log('📊 Raw descriptor length:', descriptor.length);
-		console.log('📊 Raw descriptor sample:', Array.from(descriptor).slice(0, 5));
-		
 		// Check for invalid values
-		const hasInvalidValues = Array.from(descriptor).some(val => 
-			val === null || val === undefined || !isFinite(Number(val)) || isNaN(Number(val))
-		);
+		const { descriptor } = result;
+		const hasInvalidValues = Array.from(descriptor).some(val => !Number.isFinite(val));
 		
 		if (hasInvalidValues) {
 			console.warn('⚠️ Descriptor contains invalid values, creating clean version');
-			// Create a clean descriptor with only valid values
-			const cleanDescriptor = new Float32Array(descriptor.length);
-			for (let i = 0; i < descriptor.length; i++) {
-				const val = descriptor[i];
-				cleanDescriptor[i] = (val === null || val === undefined || !isFinite(Number(val)) || isNaN(Number(val))) ? 0 : Number(val);
-			}
-			return cleanDescriptor;
+			return descriptor.map(val => (Number.isFinite(val) ? val : 0));
 		}
 		
-		console.log('✅ Face detection completed successfully');
 		return descriptor;
 	} catch (error) {
 		console.error('❌ Error in face detection:', error);
-		if (error instanceof Error && error.message === 'Face detection timeout') {
-			console.log('⏰ Face detection timed out - try again');
-		}
 		throw error;
 	}
 }
 
+export interface FaceQualityReport {
+	sharpness: number; // Variance of the Laplacian over the face crop
+	brightness: number; // Mean luma of the face crop, 0-255
+	interEyeDistance: number; // Pixels between eye centers
+	faceSizeRatio: number; // Face box width relative to frame width
+	yaw: number; // Estimated degrees, negative = turned to the subject's right
+	pitch: number; // Estimated degrees, negative = looking down
+	score: number; // Detector confidence
+	issues: string[];
+	acceptable: boolean;
+}
+
+export interface FaceQualityThresholds {
+	minSharpness: number;
+	minBrightness: number;
+	maxBrightness: number;
+	minInterEyeDistance: number;
+	minFaceSizeRatio: number;
+	maxYaw: number;
+	maxPitch: number;
+	minScore: number;
+}
+
+// Defaults are tuned for frontal reference captures at enrollment distance
+export const DEFAULT_QUALITY_THRESHOLDS: FaceQualityThresholds = {
+	minSharpness: 60,
+	minBrightness: 60,
+	maxBrightness: 210,
+	minInterEyeDistance: 40,
+	minFaceSizeRatio: 0.2,
+	maxYaw: 15,
+	maxPitch: 20,
+	minScore: 0.7,
+};
+
+const QUALITY_CROP_WIDTH = 112;
+
+function averagePoint(points: { x: number; y: number }[]): { x: number; y: number } {
+	const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+	return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+	return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function getInputSize(input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement): { width: number; height: number } {
+	if (input instanceof HTMLVideoElement) return { width: input.videoWidth, height: input.videoHeight };
+	if (input instanceof HTMLImageElement) return { width: input.naturalWidth || input.width, height: input.naturalHeight || input.height };
+	return { width: input.width, height: input.height };
+}
+
+// Grayscale crop of the face region, downscaled so the measurements are resolution independent
+function grayscaleFaceCrop(
+	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	box: { x: number; y: number; width: number; height: number },
+): { pixels: Float32Array; width: number; height: number } | null {
+	const width = QUALITY_CROP_WIDTH;
+	const height = Math.max(1, Math.round(QUALITY_CROP_WIDTH * (box.height / box.width)));
+	const canvas = document.createElement('canvas');
+	canvas.width = width;
+	canvas.height = height;
+	const ctx = canvas.getContext('2d', { willReadFrequently: true });
+	if (!ctx) return null;
+	
+	ctx.drawImage(input, box.x, box.y, box.width, box.height, 0, 0, width, height);
+	const { data } = ctx.getImageData(0, 0, width, height);
+	const pixels = new Float32Array(width * height);
+	for (let i = 0; i < pixels.length; i++) {
+		pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+	}
+	return { pixels, width, height };
+}
+
+// Estimate yaw/pitch from the 68-point landmarks (jaw 0-16, nose tip 30, eyes 36-47, chin 8)
+function estimateHeadPose(points: { x: number; y: number }[]): { yaw: number; pitch: number; interEyeDistance: number } {
+	const leftEye = averagePoint(points.slice(36, 42));
+	const rightEye = averagePoint(points.slice(42, 48));
+	const noseTip = points[30];
+	const chin = points[8];
+	
+	// The nose sits closer to the jaw edge the face is turned towards
+	const toLeftJaw = distance(noseTip, points[0]);
+	const toRightJaw = distance(noseTip, points[16]);
+	const yaw = ((toRightJaw - toLeftJaw) / (toLeftJaw + toRightJaw)) * 90;
+	
+	// The nose tip sits ~45% of the way from the eye line to the chin when level
+	const eyeLineY = (leftEye.y + rightEye.y) / 2;
+	const noseRatio = (noseTip.y - eyeLineY) / Math.max(1, chin.y - eyeLineY);
+	const pitch = (0.45 - noseRatio) * 180;
+	
+	return { yaw, pitch, interEyeDistance: distance(leftEye, rightEye) };
+}
+
+export function assessFaceQuality(
+	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	box: { x: number; y: number; width: number; height: number },
+	landmarkPositions: { x: number; y: number }[],
+	score: number,
+	thresholds: Partial<FaceQualityThresholds> = {},
+): FaceQualityReport {
+	const limits = { ...DEFAULT_QUALITY_THRESHOLDS, ...thresholds };
+	const frame = getInputSize(input);
+	
+	let sharpness = 0;
+	let brightness = 0;
+	const crop = grayscaleFaceCrop(input, box);
+	if (crop) {
+		const { pixels, width, height } = crop;
+		brightness = pixels.reduce((sum, v) => sum + v, 0) / pixels.length;
+		
+		// Variance of the 4-neighbour Laplacian: low values mean a blurry face
+		let sum = 0;
+		let sumSq = 0;
+		let count = 0;
+		for (let y = 1; y < height - 1; y++) {
+			for (let x = 1; x < width - 1; x++) {
+				const i = y * width + x;
+				const lap = pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+				sum += lap;
+				sumSq += lap * lap;
+				count++;
+			}
+		}
+		sharpness = count > 0 ? sumSq / count - (sum / count) ** 2 : 0;
+	}
+	
+	const { yaw, pitch, interEyeDistance } = landmarkPositions.length >= 68
+		? estimateHeadPose(landmarkPositions)
+		: { yaw: 0, pitch: 0, interEyeDistance: 0 };
+	const faceSizeRatio = frame.width > 0 ? box.width / frame.width : 0;
+	
+	const issues: string[] = [];
+	if (score < limits.minScore) issues.push('Face not clearly visible');
+	if (sharpness < limits.minSharpness) issues.push('Image is blurry - hold still');
+	if (brightness < limits.minBrightness) issues.push('Too dark - add more light');
+	if (brightness > limits.maxBrightness) issues.push('Too bright - avoid direct light');
+	if (interEyeDistance < limits.minInterEyeDistance || faceSizeRatio < limits.minFaceSizeRatio) {
+		issues.push('Face too small - move closer');
+	}
+	if (Math.abs(yaw) > limits.maxYaw) issues.push('Head turned too far - face the camera');
+	if (Math.abs(pitch) > limits.maxPitch) issues.push('Head tilted - keep chin level');
+	
+	return {
+		sharpness,
+		brightness,
+		interEyeDistance,
+		faceSizeRatio,
+		yaw,
+		pitch,
+		score,
+		issues,
+		acceptable: issues.length === 0,
+	};
+}
+
+export async function detectSingleFaceWithQuality(
+	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	thresholds: Partial<FaceQualityThresholds> = {},
+): Promise<{ descriptor: FaceDescriptor; quality: FaceQualityReport } | null> {
+	await loadFaceModels();
+	
+	if (!input) {
+		return null;
+	}
+	
+	if (input instanceof HTMLVideoElement && input.readyState < 2) {
+		await new Promise(resolve => {
+			input.addEventListener('loadeddata', resolve, { once: true });
+			setTimeout(resolve, 3000); // 3 second timeout
+		});
+	}
+	
+	const detectionPromise = faceapi
+		.detectSingleFace(input, new faceapi.TinyFaceDetectorOptions({ 
+			inputSize: 224,
+			scoreThreshold: 0.5
+		}))
+		.withFaceLandmarks()
+		.withFaceDescriptor();
+	
+	const timeoutPromise = new Promise((_, reject) => 
+		setTimeout(() => reject(new Error('Face detection timeout')), 5000)
+	);
+	
+	const detection = await Promise.race([detectionPromise, timeoutPromise]) as Awaited<typeof detectionPromise>;
+	
+	if (!detection?.descriptor) {
+		return null;
+	}
+	
+	const quality = assessFaceQuality(
+		input,
+		detection.detection.box,
+		detection.landmarks.positions,
+		detection.detection.score,
+		thresholds,
+	);
+	
+	if (process.env.NODE_ENV === 'development') {
+		console.log('📐 Face quality:', quality);
+	}
+	
+	return { descriptor: detection.descriptor, quality };
+}
+
 export interface DetectedFace {
 	descriptor: FaceDescriptor;
 	box: { x: number; y: number; width: number; height: number };
@@ -143,15 +350,188 @@ export interface DetectedFace {
 	};
 }
 
+// Detector settings for classroom scans (many small faces, low threshold)
+export function multiFaceDetectorOptions(
+	config: FaceDetectorConfig = getFaceDetectorConfig(),
+): faceapi.TinyFaceDetectorOptions | faceapi.SsdMobilenetv1Options {
+	if (resolveDetectorBackend(config.backend) === 'ssd') {
+		return new faceapi.SsdMobilenetv1Options({
+			minConfidence: config.minConfidence,
+			maxResults: 100, // Whole classrooms, not just a handful of faces
+		});
+	}
+	return new faceapi.TinyFaceDetectorOptions({ 
+		inputSize: config.inputSize,
+		scoreThreshold: config.minConfidence
+	});
+}
+
+// What detectAllFaces().withFaceLandmarks().withFaceDescriptors() resolves with
+type FullFaceDetection = faceapi.WithFaceDescriptor<faceapi.WithFaceLandmarks<faceapi.WithFaceDetection<object>>>;
+
+// Convert raw face-api.js detections into DetectedFace objects, dropping obvious non-faces
+export function toDetectedFaces(detections: FullFaceDetection[]): DetectedFace[] {
+	// Process detections with classroom-optimized filtering
+	const validFaces: DetectedFace[] = [];
+	
+	for (const detection of detections) {
+		const { box, score } = detection.detection;
+		
+		if (!box || !score) {
+			console.log('⚠️ Invalid detection object:', detection);
+			continue;
+		}
+		
+		// Skip if no descriptor (basic detection only)
+		if (!detection.descriptor) {
+			console.log('⚠️ No descriptor available, skipping face');
+			continue;
+		}
+		
+		// Ultra-lenient filtering for maximum speed and detection
+		const aspectRatio = box.width / box.height;
+		const area = box.width * box.height;
+		
+		// Very lenient filtering for speed
+		const minArea = 200; // Very low minimum for distant faces
+		const maxArea = 200000; // Very high maximum for close faces
+		
+		// Only filter out extremely obvious non-faces
+		if (
+			aspectRatio < 0.1 || aspectRatio > 10.0 || // Very lenient aspect ratios
+			area < minArea || area > maxArea || // Very lenient size range
+			score < 0.05 // Very low confidence threshold
+		) {
+			continue;
+		}
+		
+		// Quick descriptor validation
+		const descriptor = detection.descriptor;
+		if (descriptor.length === 0) continue;
+		
+		// Extract landmarks for dynamic bounding box calculation
+		let landmarks;
+		if (detection.landmarks) {
+			const landmarkPoints = detection.landmarks.positions;
+			// Get nose position (typically around index 30-32 in 68-point model)
+			const noseIndex = 30; // Approximate nose tip position
+			const leftEyeIndex = 36; // Left eye center
+			const rightEyeIndex = 45; // Right eye center
+			
+			landmarks = {
+				nose: {
+					x: landmarkPoints[noseIndex]?.x || (box.x + box.width / 2),
+					y: landmarkPoints[noseIndex]?.y || (box.y + box.height * 0.4)
+				},
+				leftEye: {
+					x: landmarkPoints[leftEyeIndex]?.x || (box.x + box.width * 0.3),
+					y: landmarkPoints[leftEyeIndex]?.y || (box.y + box.height * 0.3)
+				},
+				rightEye: {
+					x: landmarkPoints[rightEyeIndex]?.x || (box.x + box.width * 0.7),
+					y: landmarkPoints[rightEyeIndex]?.y || (box.y + box.height * 0.3)
+				}
+			};
+		}
+
+		validFaces.push({
+			descriptor,
+			box: {
+				x: box.x,
+				y: box.y,
+				width: box.width,
+				height: box.height
+			},
+			score: score,
+			landmarks: landmarks
+		});
+	}
+	
+	return validFaces;
+}
+
+function createScratchCanvas(width: number, height: number): HTMLCanvasElement {
+	// Workers have no DOM; face-api.js is pointed at OffscreenCanvas there
+	if (typeof document === 'undefined') {
+		return new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement;
+	}
+	const canvas = document.createElement('canvas');
+	canvas.width = width;
+	canvas.height = height;
+	return canvas;
+}
+
+async function runMultiFaceDetector(
+	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	config: FaceDetectorConfig,
+): Promise<DetectedFace[]> {
+	const detections = await faceapi
+		.detectAllFaces(input, multiFaceDetectorOptions(config))
+		.withFaceLandmarks()
+		.withFaceDescriptors();
+	return toDetectedFaces(detections);
+}
+
+function offsetFace(face: DetectedFace, dx: number, dy: number): DetectedFace {
+	const shift = (p: { x: number; y: number }) => ({ x: p.x + dx, y: p.y + dy });
+	return {
+		...face,
+		box: { ...face.box, x: face.box.x + dx, y: face.box.y + dy },
+		landmarks: face.landmarks && {
+			nose: shift(face.landmarks.nose),
+			leftEye: shift(face.landmarks.leftEye),
+			rightEye: shift(face.landmarks.rightEye),
+		},
+	};
+}
+
+// Run the detector over overlapping tiles at several scales so 20px back-row faces get
+// enough pixels, then merge the duplicates found by neighbouring tiles and scales.
+export async function detectFacesTiled(
+	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	frameWidth: number,
+	frameHeight: number,
+	config: FaceDetectorConfig,
+	tiling: TilingOptions = DEFAULT_TILING,
+): Promise<DetectedFace[]> {
+	const faces: DetectedFace[] = [];
+	let canvas: HTMLCanvasElement | null = null;
+	
+	for (const tile of computeTiles(frameWidth, frameHeight, tiling)) {
+		if (tile.width === frameWidth && tile.height === frameHeight) {
+			faces.push(...await runMultiFaceDetector(input, config));
+			continue;
+		}
+		
+		if (!canvas || canvas.width !== tile.width || canvas.height !== tile.height) {
+			canvas = createScratchCanvas(tile.width, tile.height);
+		}
+		canvas.getContext('2d')?.drawImage(input, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+		
+		const tileFaces = await runMultiFaceDetector(canvas, config);
+		faces.push(...tileFaces.map(face => offsetFace(face, tile.x, tile.y)));
+	}
+	
+	return nonMaxSuppression(faces);
+}
+
+// How long one classroom detection may take before it is abandoned.
+// Each tile is a full detector pass, so tiled scans get proportionally more time.
+export function detectionTimeoutMs(config: FaceDetectorConfig, width = 0, height = 0): number {
+	return config.tiled ? 2000 + computeTiles(width, height).length * 1000 : 2000;
+}
+
 export async function detectMultipleFaces(
 	input: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	config: FaceDetectorConfig = getFaceDetectorConfig(),
 ): Promise<DetectedFace[]> {
 	try {
-		await loadFaceModels();
+		await loadFaceModels(config.backend);
 		
 		// Test if models are actually loaded
 		console.log('🔍 Models loaded check:', {
-			tinyFaceDetector: !!faceapi.nets.tinyFaceDetector.params,
+			detector: resolveDetectorBackend(config.backend),
+			detectorLoaded: detectorNet(resolveDetectorBackend(config.backend)).isLoaded,
 			faceLandmark68Net: !!faceapi.nets.faceLandmark68Net.params,
 			faceRecognitionNet: !!faceapi.nets.faceRecognitionNet.params
 		});
@@ -171,6 +551,14 @@ export async function detectMultipleFaces(
 			}
 		}
 		
+		if (config.tiled) {
+			const { width, height } = getInputSize(input);
+			const tiledTimeout = new Promise<DetectedFace[]>((_, reject) => 
+				setTimeout(() => reject(new Error('Face detection timeout')), detectionTimeoutMs(config, width, height))
+			);
+			return await Promise.race([detectFacesTiled(input, width, height, config), tiledTimeout]);
+		}
+		
 		// Ultra-fast detection parameters for speed
 		console.log('🔍 Starting face detection with input:', input);
 		console.log('🔍 Input dimensions:', {
@@ -183,24 +571,18 @@ export async function detectMultipleFaces(
 		let detectionPromise;
 		try {
 			detectionPromise = faceapi
-				.detectAllFaces(input, new faceapi.TinyFaceDetectorOptions({ 
-					inputSize: 224, // Slightly larger for better detection
-					scoreThreshold: 0.1  // Higher threshold for better quality
-				}))
+				.detectAllFaces(input, multiFaceDetectorOptions(config))
 				.withFaceLandmarks()
 				.withFaceDescriptors();
 		} catch (error) {
 			console.log('⚠️ Full detection failed, trying basic detection:', error);
 			// Fallback to basic detection without landmarks/descriptors
-			detectionPromise = faceapi.detectAllFaces(input, new faceapi.TinyFaceDetectorOptions({ 
-				inputSize: 224,
-				scoreThreshold: 0.1
-			}));
+			detectionPromise = faceapi.detectAllFaces(input, multiFaceDetectorOptions(config));
 		}
 		
 		// Longer timeout for better detection
 		const timeoutPromise = new Promise((_, reject) => 
-			setTimeout(() => reject(new Error('Face detection timeout')), 2000)
+			setTimeout(() => reject(new Error('Face detection timeout')), detectionTimeoutMs(config))
 		);
 		
 		const detections = await Promise.race([detectionPromise, timeoutPromise]) as any[];
@@ -218,85 +600,7 @@ export async function detectMultipleFaces(
 			return [];
 		}
 		
-		// Process detections with classroom-optimized filtering
-		const validFaces: DetectedFace[] = [];
-		
-		for (const detection of detections) {
-			// Handle both full detections (with landmarks/descriptors) and basic detections
-			const box = detection.detection ? detection.detection.box : detection.box;
-			const score = detection.detection ? detection.detection.score : detection.score;
-			
-			if (!box || !score) {
-				console.log('⚠️ Invalid detection object:', detection);
-				continue;
-			}
-			
-			// Skip if no descriptor (basic detection only)
-			if (!detection.descriptor) {
-				console.log('⚠️ No descriptor available, skipping face');
-				continue;
-			}
-			
-			// Ultra-lenient filtering for maximum speed and detection
-			const aspectRatio = box.width / box.height;
-			const area = box.width * box.height;
-			
-			// Very lenient filtering for speed
-			const minArea = 200; // Very low minimum for distant faces
-			const maxArea = 200000; // Very high maximum for close faces
-			
-			// Only filter out extremely obvious non-faces
-			if (
-				aspectRatio < 0.1 || aspectRatio > 10.0 || // Very lenient aspect ratios
-				area < minArea || area > maxArea || // Very lenient size range
-				score < 0.05 // Very low confidence threshold
-			) {
-				continue;
-			}
-			
-			// Quick descriptor validation
-			const descriptor = detection.descriptor;
-			if (descriptor.length === 0) continue;
-			
-			// Extract landmarks for dynamic bounding box calculation
-			let landmarks;
-			if (detection.landmarks) {
-				const landmarkPoints = detection.landmarks.positions;
-				// Get nose position (typically around index 30-32 in 68-point model)
-				const noseIndex = 30; // Approximate nose tip position
-				const leftEyeIndex = 36; // Left eye center
-				const rightEyeIndex = 45; // Right eye center
-				
-				landmarks = {
-					nose: {
-						x: landmarkPoints[noseIndex]?.x || (box.x + box.width / 2),
-						y: landmarkPoints[noseIndex]?.y || (box.y + box.height * 0.4)
-					},
-					leftEye: {
-						x: landmarkPoints[leftEyeIndex]?.x || (box.x + box.width * 0.3),
-						y: landmarkPoints[leftEyeIndex]?.y || (box.y + box.height * 0.3)
-					},
-					rightEye: {
-						x: landmarkPoints[rightEyeIndex]?.x || (box.x + box.width * 0.7),
-						y: landmarkPoints[rightEyeIndex]?.y || (box.y + box.height * 0.3)
-					}
-				};
-			}
-
-			validFaces.push({
-				descriptor,
-				box: {
-					x: box.x,
-					y: box.y,
-					width: box.width,
-					height: box.height
-				},
-				score: score,
-				landmarks: landmarks
-			});
-		}
-		
-		return validFaces;
+		return toDetectedFaces(detections);
 	} catch (error) {
 		// Silent error handling for better performance
 		return [];
@@ -312,9 +616,18 @@ export function computeEuclideanDistance(a: Float32Array, b: Float32Array): numb
 	return Math.sqrt(sum);
 }
 
+export type FaceTemplateLabel = 'frontal' | 'left' | 'right' | 'alternate';
+
+// A student with every enrolled face template (frontal, angles, glasses...)
+export interface KnownFace {
+	id: string;
+	name: string;
+	descriptors: Float32Array[];
+}
+
 export function findBestMatch(
 	query: Float32Array,
-	knowns: { id: string; name: string; descriptor: Float32Array }[],
+	knowns: KnownFace[],
 	threshold = 0.4, // Lower threshold for better recognition
 ): { id: string; name: string; distance: number } | null {
 	// Reduced logging for production performance
@@ -329,14 +642,17 @@ export function findBestMatch(
 	let best: { id: string; name: string; distance: number } | null = null;
 	
 	for (const k of knowns) {
-		try {
-			const dist = computeEuclideanDistance(query, k.descriptor);
-			
-			if (best === null || dist < best.distance) {
-				best = { id: k.id, name: k.name, distance: dist };
+		// A student's distance is the distance to their closest template
+		for (const descriptor of k.descriptors) {
+			try {
+				const dist = computeEuclideanDistance(query, descriptor);
+				
+				if (best === null || dist < best.distance) {
+					best = { id: k.id, name: k.name, distance: dist };
+				}
+			} catch (error) {
+				console.error(`❌ Error computing distance for ${k.name}:`, error);
 			}
-		} catch (error) {
-			console.error(`❌ Error computing distance for ${k.name}:`, error);
 		}
 	}
 	
@@ -352,6 +668,114 @@ export function findBestMatch(
 	return best.distance <= threshold ? best : null;
 }
 
+export interface MatchCandidate {
+	id: string;
+	name: string;
+	distance: number;
+}
+
+// Nearest students to a face, one entry per student (their closest template), best first
+export function rankMatches(query: Float32Array, knowns: KnownFace[], k = 3): MatchCandidate[] {
+	const candidates: MatchCandidate[] = [];
+	for (const known of knowns) {
+		let distance = Infinity;
+		for (const descriptor of known.descriptors) {
+			distance = Math.min(distance, computeEuclideanDistance(query, descriptor));
+		}
+		if (isFinite(distance)) {
+			candidates.push({ id: known.id, name: known.name, distance });
+		}
+	}
+	return candidates.sort((a, b) => a.distance - b.distance).slice(0, k);
+}
+
+export interface FaceMatchOptions {
+	threshold: number; // Max distance for a match
+	ratio: number; // Best/second-best distance must be below this, otherwise the face is ambiguous
+	topK: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: FaceMatchOptions = {
+	threshold: 0.5,
+	ratio: 0.85,
+	topK: 3,
+};
+
+export interface FaceAssignment {
+	match: MatchCandidate | null;
+	candidates: MatchCandidate[];
+	ambiguous: boolean; // Failed the ratio test
+}
+
+/**
+ * Match every face in a frame at once. Near-ties are rejected with a ratio test, then a
+ * global min-cost assignment makes sure no student is claimed by two faces.
+ */
+export function matchFacesToStudents(
+	queries: Float32Array[],
+	knowns: KnownFace[],
+	options: Partial<FaceMatchOptions> = {},
+): FaceAssignment[] {
+	const { threshold, ratio, topK } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+	
+	// Full ranking so the assignment can fall back to a face's next-best student
+	const ranked = queries.map(query => rankMatches(query, knowns, knowns.length));
+	const ambiguous = ranked.map(candidates =>
+		candidates.length >= 2 &&
+		candidates[0].distance <= threshold &&
+		candidates[0].distance / candidates[1].distance >= ratio
+	);
+	
+	if (queries.length === 0 || knowns.length === 0) {
+		return ranked.map((candidates, i) => ({ match: null, candidates: candidates.slice(0, topK), ambiguous: ambiguous[i] }));
+	}
+	
+	// Columns: one per student plus one "no match" column per face, which costs the threshold
+	const UNMATCHABLE = threshold * 1000;
+	const cost = queries.map((_, i) => {
+		const row = knowns.map(known => {
+			if (ambiguous[i]) return UNMATCHABLE;
+			const candidate = ranked[i].find(c => c.id === known.id);
+			return candidate && candidate.distance <= threshold ? candidate.distance : UNMATCHABLE;
+		});
+		return row.concat(queries.map(() => threshold));
+	});
+	
+	const columns = solveAssignment(cost);
+	
+	return queries.map((_, i) => {
+		const column = columns[i];
+		const known = column >= 0 && column < knowns.length ? knowns[column] : null;
+		const match = known && cost[i][column] <= threshold
+			? ranked[i].find(c => c.id === known.id) ?? null
+			: null;
+		return { match, candidates: ranked[i].slice(0, topK), ambiguous: ambiguous[i] };
+	});
+}
+
+// Build the matcher entry for a student, falling back to the legacy single facial_id
+export function toKnownFace(student: {
+	id: string;
+	full_name: string;
+	facial_id: string | null;
+	face_templates?: { descriptor: string }[] | null;
+}): KnownFace | null {
+	const encoded = student.face_templates?.length
+		? student.face_templates.map(t => t.descriptor)
+		: student.facial_id ? [student.facial_id] : [];
+	
+	const descriptors: Float32Array[] = [];
+	for (const b64 of encoded) {
+		try {
+			descriptors.push(base64ToFloat32Simple(b64));
+		} catch (error) {
+			console.warn(`⚠️ Skipping unreadable face template for ${student.full_name}`);
+		}
+	}
+	
+	return descriptors.length > 0 ? { id: student.id, name: student.full_name, descriptors } : null;
+}
+
 export function float32ToBase64(descriptor: Float32Array): string {
   try {
     // Convert Float32Array to regular array, ensuring all values are valid numbers
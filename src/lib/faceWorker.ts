@@ -0,0 +1,130 @@
+import { detectMultipleFaces, detectionTimeoutMs, getFaceDetectorConfig, loadFaceModels, DetectedFace, FaceDetectorBackend, FaceDetectorConfig } from './face';
+
+// Message protocol between the scanner and src/workers/face.worker.ts
+export type FaceWorkerRequest =
+	| { type: 'load'; backend: FaceDetectorBackend }
+	| { type: 'detect'; id: number; frame: ImageBitmap; config: FaceDetectorConfig };
+
+export type FaceWorkerResponse =
+	| { type: 'loaded'; backend: FaceDetectorBackend; loaded: FaceDetectorBackend }
+	| { type: 'detected'; id: number; faces: DetectedFace[] }
+	| { type: 'error'; id?: number; backend?: FaceDetectorBackend; message: string };
+
+type Deferred<T> = { promise: Promise<T>; resolve: (value: T) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const loads = new Map<FaceDetectorBackend, Deferred<FaceDetectorBackend>>();
+const pending = new Map<number, Deferred<DetectedFace[]>>();
+
+function deferred<T>(): Deferred<T> {
+	let resolve!: (value: T) => void;
+	let reject!: (error: Error) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+export function isFaceWorkerSupported(): boolean {
+	return !workerFailed &&
+		typeof Worker !== 'undefined' &&
+		typeof OffscreenCanvas !== 'undefined' &&
+		typeof createImageBitmap !== 'undefined';
+}
+
+function failWorker(error: Error) {
+	console.error('❌ Face worker failed, falling back to main thread:', error);
+	workerFailed = true;
+	worker?.terminate();
+	worker = null;
+	loads.forEach(({ reject }) => reject(error));
+	loads.clear();
+	pending.forEach(({ reject }) => reject(error));
+	pending.clear();
+}
+
+function getWorker(): Worker {
+	if (worker) return worker;
+
+	worker = new Worker(new URL('../workers/face.worker.ts', import.meta.url), { type: 'module' });
+	worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+		const response = event.data;
+		switch (response.type) {
+			case 'loaded':
+				loads.get(response.backend)?.resolve(response.loaded);
+				break;
+			case 'detected':
+				pending.get(response.id)?.resolve(response.faces);
+				pending.delete(response.id);
+				break;
+			case 'error':
+				if (response.id === undefined) {
+					loads.get(response.backend)?.reject(new Error(response.message));
+					loads.delete(response.backend);
+				} else {
+					pending.get(response.id)?.reject(new Error(response.message));
+					pending.delete(response.id);
+				}
+				break;
+		}
+	};
+	worker.onerror = (event) => failWorker(new Error(event.message || 'Face worker crashed'));
+
+	return worker;
+}
+
+// Load the models inside the worker, or on the main thread where workers can't run face-api.js.
+// Resolves with the detector that was actually loaded.
+export async function loadFaceModelsInWorker(backend: FaceDetectorBackend = getFaceDetectorConfig().backend): Promise<FaceDetectorBackend> {
+	if (!isFaceWorkerSupported()) {
+		return loadFaceModels(backend);
+	}
+
+	let load = loads.get(backend);
+	if (!load) {
+		load = deferred<FaceDetectorBackend>();
+		loads.set(backend, load);
+		getWorker().postMessage({ type: 'load', backend } satisfies FaceWorkerRequest);
+	}
+
+	return load.promise;
+}
+
+export function preloadFaceWorker(): void {
+	loadFaceModelsInWorker().catch(console.error);
+}
+
+// Same contract as detectMultipleFaces, but the heavy lifting happens off the main thread
+export async function detectMultipleFacesInWorker(
+	video: HTMLVideoElement,
+	config: FaceDetectorConfig = getFaceDetectorConfig(),
+): Promise<DetectedFace[]> {
+	if (!isFaceWorkerSupported()) {
+		return detectMultipleFaces(video, config);
+	}
+
+	if (video.readyState < 2 || video.videoWidth === 0) {
+		return [];
+	}
+
+	// Model loading isn't part of the detection budget below
+	await loadFaceModelsInWorker(config.backend);
+
+	const frame = await createImageBitmap(video);
+	const id = nextRequestId++;
+	const request = deferred<DetectedFace[]>();
+	pending.set(id, request);
+	getWorker().postMessage({ type: 'detect', id, frame, config } satisfies FaceWorkerRequest, [frame]);
+
+	// Same budget as the main thread, so a stuck worker can't stall the scan loop; a late answer is ignored
+	const timeout = setTimeout(() => {
+		if (pending.delete(id)) {
+			request.reject(new Error('Face detection timeout'));
+		}
+	}, detectionTimeoutMs(config, video.videoWidth, video.videoHeight));
+
+	return request.promise.finally(() => clearTimeout(timeout));
+}
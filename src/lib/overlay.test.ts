@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { computeProjection, projectBox, projectPoint, OverlayViewport } from './overlay';
+
+const viewport = (changes: Partial<OverlayViewport> = {}): OverlayViewport => ({
+	videoWidth: 1280,
+	videoHeight: 720,
+	displayWidth: 640,
+	displayHeight: 360,
+	fit: 'cover',
+	mirrored: false,
+	rotation: 0,
+	devicePixelRatio: 1,
+	...changes,
+});
+
+describe('computeProjection', () => {
+	it('scales without offsets when the aspect ratios match', () => {
+		expect(computeProjection(viewport())).toEqual({
+			scale: 0.5,
+			offsetX: 0,
+			offsetY: 0,
+			sourceWidth: 1280,
+			sourceHeight: 720,
+		});
+	});
+
+	it('crops the sides for object-cover in a portrait element', () => {
+		const projection = computeProjection(viewport({ displayWidth: 360, displayHeight: 640 }));
+		expect(projection.scale).toBeCloseTo(640 / 720);
+		expect(projection.offsetX).toBeLessThan(0);
+		expect(projection.offsetY).toBeCloseTo(0);
+	});
+
+	it('letterboxes for object-contain in a portrait element', () => {
+		const projection = computeProjection(viewport({ displayWidth: 360, displayHeight: 640, fit: 'contain' }));
+		expect(projection.scale).toBeCloseTo(360 / 1280);
+		expect(projection.offsetX).toBeCloseTo(0);
+		expect(projection.offsetY).toBeGreaterThan(0);
+	});
+
+	it('swaps the source size for quarter turns', () => {
+		const projection = computeProjection(viewport({ rotation: 90 }));
+		expect(projection.sourceWidth).toBe(720);
+		expect(projection.sourceHeight).toBe(1280);
+	});
+});
+
+describe('projectPoint', () => {
+	it('flips x when the video is mirrored', () => {
+		expect(projectPoint({ x: 100, y: 100 }, viewport({ mirrored: true }))).toEqual({ x: 590, y: 50 });
+	});
+
+	it('rotates frame pixels clockwise', () => {
+		const rotated = viewport({ rotation: 90, displayWidth: 720, displayHeight: 1280 });
+		// Top-left of the frame ends up at the top-right of the display
+		expect(projectPoint({ x: 0, y: 0 }, rotated)).toEqual({ x: 720, y: 0 });
+	});
+});
+
+describe('projectBox', () => {
+	it('keeps a positive size when mirroring swaps the corners', () => {
+		expect(projectBox({ x: 100, y: 100, width: 200, height: 100 }, viewport({ mirrored: true }))).toEqual({
+			x: 490,
+			y: 50,
+			width: 100,
+			height: 50,
+		});
+	});
+});
@@ -0,0 +1,145 @@
+// Maps detector coordinates (video frame pixels) to what the teacher actually sees on screen
+// and draws the face overlay on a canvas.
+
+import { Box } from './tiling';
+
+export type OverlayFit = 'cover' | 'contain';
+export type OverlayRotation = 0 | 90 | 180 | 270;
+
+export interface OverlayViewport {
+	videoWidth: number; // Intrinsic frame size the detector ran on
+	videoHeight: number;
+	displayWidth: number; // CSS size of the <video> element
+	displayHeight: number;
+	fit: OverlayFit; // object-fit of the <video> element
+	mirrored: boolean; // Video shown with scaleX(-1)
+	rotation: OverlayRotation; // Clockwise rotation applied to the frame before display, e.g. by a CSS transform
+	devicePixelRatio: number;
+}
+
+export interface Projection {
+	scale: number;
+	offsetX: number; // Negative when object-cover crops, positive when object-contain letterboxes
+	offsetY: number;
+	sourceWidth: number; // Frame size after rotation
+	sourceHeight: number;
+}
+
+export interface OverlayFace {
+	box: Box;
+	label: string;
+	recognized: boolean;
+	nose?: { x: number; y: number };
+}
+
+export function computeProjection(viewport: OverlayViewport): Projection {
+	const quarterTurn = viewport.rotation === 90 || viewport.rotation === 270;
+	const sourceWidth = quarterTurn ? viewport.videoHeight : viewport.videoWidth;
+	const sourceHeight = quarterTurn ? viewport.videoWidth : viewport.videoHeight;
+
+	const scaleX = viewport.displayWidth / sourceWidth;
+	const scaleY = viewport.displayHeight / sourceHeight;
+	const scale = viewport.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+	return {
+		scale,
+		offsetX: (viewport.displayWidth - sourceWidth * scale) / 2,
+		offsetY: (viewport.displayHeight - sourceHeight * scale) / 2,
+		sourceWidth,
+		sourceHeight,
+	};
+}
+
+function rotatePoint(x: number, y: number, viewport: OverlayViewport): { x: number; y: number } {
+	const { videoWidth: w, videoHeight: h } = viewport;
+	switch (viewport.rotation) {
+		case 90:
+			return { x: h - y, y: x };
+		case 180:
+			return { x: w - x, y: h - y };
+		case 270:
+			return { x: y, y: w - x };
+		default:
+			return { x, y };
+	}
+}
+
+// Frame pixel -> CSS pixel inside the video element
+export function projectPoint(point: { x: number; y: number }, viewport: OverlayViewport, projection = computeProjection(viewport)): { x: number; y: number } {
+	const rotated = rotatePoint(point.x, point.y, viewport);
+	const x = viewport.mirrored ? projection.sourceWidth - rotated.x : rotated.x;
+	return {
+		x: x * projection.scale + projection.offsetX,
+		y: rotated.y * projection.scale + projection.offsetY,
+	};
+}
+
+export function projectBox(box: Box, viewport: OverlayViewport, projection = computeProjection(viewport)): Box {
+	const a = projectPoint({ x: box.x, y: box.y }, viewport, projection);
+	const b = projectPoint({ x: box.x + box.width, y: box.y + box.height }, viewport, projection);
+	return {
+		x: Math.min(a.x, b.x),
+		y: Math.min(a.y, b.y),
+		width: Math.abs(b.x - a.x),
+		height: Math.abs(b.y - a.y),
+	};
+}
+
+// Sizes the backing store for the device pixel ratio so lines and labels stay crisp
+export function prepareOverlayCanvas(canvas: HTMLCanvasElement, viewport: OverlayViewport): CanvasRenderingContext2D | null {
+	const width = Math.round(viewport.displayWidth * viewport.devicePixelRatio);
+	const height = Math.round(viewport.displayHeight * viewport.devicePixelRatio);
+	if (canvas.width !== width || canvas.height !== height) {
+		canvas.width = width;
+		canvas.height = height;
+	}
+
+	const ctx = canvas.getContext('2d');
+	if (!ctx) return null;
+	ctx.setTransform(viewport.devicePixelRatio, 0, 0, viewport.devicePixelRatio, 0, 0);
+	ctx.clearRect(0, 0, viewport.displayWidth, viewport.displayHeight);
+	return ctx;
+}
+
+export function drawFaceOverlay(canvas: HTMLCanvasElement, faces: OverlayFace[], viewport: OverlayViewport): void {
+	const ctx = prepareOverlayCanvas(canvas, viewport);
+	if (!ctx || viewport.videoWidth === 0 || viewport.videoHeight === 0) return;
+
+	const projection = computeProjection(viewport);
+	ctx.font = '500 12px ui-sans-serif, system-ui, sans-serif';
+	ctx.textBaseline = 'middle';
+
+	for (const face of faces) {
+		const box = projectBox(face.box, viewport, projection);
+		const color = face.recognized ? '#22c55e' : '#facc15';
+
+		ctx.lineWidth = 2;
+		ctx.strokeStyle = color;
+		ctx.fillStyle = face.recognized ? 'rgba(34, 197, 94, 0.1)' : 'rgba(250, 204, 21, 0.1)';
+		ctx.beginPath();
+		ctx.roundRect(box.x, box.y, box.width, box.height, 8);
+		ctx.fill();
+		ctx.stroke();
+
+		if (face.nose) {
+			const nose = projectPoint(face.nose, viewport, projection);
+			ctx.fillStyle = '#ef4444';
+			ctx.beginPath();
+			ctx.arc(nose.x, nose.y, 3, 0, Math.PI * 2);
+			ctx.fill();
+		}
+
+		// Label sits above the box unless that would leave the screen
+		const labelHeight = 22;
+		const labelWidth = ctx.measureText(face.label).width + 16;
+		const labelX = Math.min(Math.max(0, box.x), viewport.displayWidth - labelWidth);
+		const labelY = box.y - labelHeight - 4 >= 0 ? box.y - labelHeight - 4 : box.y + box.height + 4;
+
+		ctx.fillStyle = color;
+		ctx.beginPath();
+		ctx.roundRect(labelX, labelY, labelWidth, labelHeight, 4);
+		ctx.fill();
+		ctx.fillStyle = face.recognized ? '#ffffff' : '#000000';
+		ctx.fillText(face.label, labelX + 8, labelY + labelHeight / 2);
+	}
+}
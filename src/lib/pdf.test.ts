@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createPdfDocument, measureText, truncateText } from './pdf';
+
+// PDF output is single-byte, so each byte maps straight to a character
+async function readPdf(blob: Blob): Promise<string> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+	return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+// The string operand of the first Tj operator
+async function encodedText(value: string): Promise<string> {
+	const pdf = createPdfDocument();
+	pdf.addPage().text(0, 0, value);
+	const output = await readPdf(pdf.toBlob());
+	return output.match(/ Td \(((?:\\.|[^\\)])*)\) Tj/)![1];
+}
+
+describe('measureText', () => {
+	it('sums the Helvetica glyph widths at the font size', () => {
+		// H 722 + i 222
+		expect(measureText('Hi', 10)).toBeCloseTo(9.44);
+		// Bold H 722 + i 278
+		expect(measureText('Hi', 10, 'bold')).toBeCloseTo(10);
+		expect(measureText('', 12)).toBe(0);
+	});
+
+	it('uses the fallback width outside ASCII', () => {
+		expect(measureText('é', 1000)).toBe(556);
+		expect(measureText('—', 1000)).toBe(556);
+	});
+});
+
+describe('truncateText', () => {
+	it('leaves text that fits unchanged', () => {
+		expect(truncateText('Ana', 100, 10)).toBe('Ana');
+	});
+
+	it('cuts text with an ellipsis that fits the width', () => {
+		const name = 'Maximiliano Fernández-Gutiérrez';
+		const truncated = truncateText(name, 60, 10);
+
+		expect(truncated.endsWith('...')).toBe(true);
+		expect(name.startsWith(truncated.slice(0, -3))).toBe(true);
+		expect(measureText(truncated, 10)).toBeLessThanOrEqual(60);
+		// One more character would not have fitted
+		expect(measureText(`${name.slice(0, truncated.length - 2)}...`, 10)).toBeGreaterThan(60);
+	});
+
+	it('drops trailing spaces before the ellipsis', () => {
+		expect(truncateText('Ab cdefghijklmnop', measureText('Ab ...', 10), 10)).toBe('Ab...');
+	});
+});
+
+describe('text encoding', () => {
+	it('escapes PDF string delimiters', async () => {
+		expect(await encodedText('a(b)c\\d')).toBe('a\\(b\\)c\\\\d');
+	});
+
+	it('writes Latin-1 characters as octal escapes', async () => {
+		// é = 0xE9 = 351, ñ = 0xF1 = 361, non-breaking space = 0xA0 = 240
+		expect(await encodedText('José Muñoz\u00a0')).toBe('Jos\\351 Mu\\361oz\\240');
+	});
+
+	it('maps typographic punctuation to its WinAnsi code', async () => {
+		expect(await encodedText('‘a’ “b” – — • …'))
+			.toBe('\\221a\\222 \\223b\\224 \\226 \\227 \\225 \\205');
+	});
+
+	it('replaces characters WinAnsi cannot encode', async () => {
+		expect(await encodedText('Łukasz 李 \u0007')).toBe('?ukasz ? ?');
+	});
+});
+
+describe('toBlob', () => {
+	it('writes xref offsets that land on each object', async () => {
+		const pdf = createPdfDocument({ title: 'Register (Ünits)' });
+		pdf.addPage().text(10, 10, 'Café – first page');
+		pdf.addPage().rect(0, 0, 10, 10, { fill: [1, 0, 0] });
+		const output = await readPdf(pdf.toBlob());
+
+		const startxref = Number(output.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+		expect(output.startsWith('xref\n', startxref)).toBe(true);
+
+		const [header, ...rest] = output.slice(startxref).split('\n').slice(1);
+		const count = Number(header.split(' ')[1]);
+		// Catalog, pages, two fonts, info, then a page and its contents for each page
+		expect(count).toBe(6 + 2 * 2);
+		expect(rest[0]).toBe('0000000000 65535 f ');
+
+		for (let id = 1; id < count; id++) {
+			const entry = rest[id];
+			expect(entry).toMatch(/^\d{10} 00000 n $/);
+			expect(output.startsWith(`${id} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true);
+		}
+		expect(output).toContain(`trailer\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>`);
+	});
+
+	it('declares each content stream length in bytes', async () => {
+		const pdf = createPdfDocument();
+		pdf.addPage().text(0, 0, 'Ñandú');
+		const output = await readPdf(pdf.toBlob());
+
+		const [, length, stream] = output.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+		expect(stream.length).toBe(Number(length));
+	});
+});
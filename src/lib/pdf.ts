@@ -0,0 +1,218 @@
+// Minimal PDF writer for printable registers. Uses the standard Helvetica fonts that every PDF
+// viewer ships with, so documents are built entirely in the browser with nothing to download.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // 0-1 RGB
+
+export interface PdfTextOptions {
+	size?: number;
+	font?: PdfFont;
+	align?: 'left' | 'center' | 'right';
+	color?: PdfColor;
+	maxWidth?: number; // Truncates with an ellipsis
+}
+
+export interface PdfLineOptions {
+	width?: number;
+	color?: PdfColor;
+	dash?: number;
+}
+
+export interface PdfRectOptions {
+	fill?: PdfColor;
+	stroke?: PdfColor;
+	lineWidth?: number;
+}
+
+export interface PdfPage {
+	width: number;
+	height: number;
+	text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+	line(x1: number, y1: number, x2: number, y2: number, options?: PdfLineOptions): void;
+	rect(x: number, y: number, width: number, height: number, options?: PdfRectOptions): void;
+}
+
+export interface PdfDocument {
+	width: number;
+	height: number;
+	addPage(): PdfPage;
+	pageCount(): number;
+	toBlob(): Blob;
+}
+
+export const PAGE_SIZES = {
+	a4: { width: 595.28, height: 841.89 },
+	letter: { width: 612, height: 792 },
+};
+
+export interface PdfDocumentOptions {
+	size?: keyof typeof PAGE_SIZES;
+	orientation?: 'portrait' | 'landscape';
+	title?: string;
+}
+
+// Glyph widths (per 1000 units) of printable ASCII, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+	556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+	1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+	667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+	333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+	556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+	556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+	975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+	667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+	333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+	611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typical glyph width, used for anything outside ASCII
+const FALLBACK_WIDTH = 556;
+
+export function measureText(value: string, size: number, font: PdfFont = 'regular'): number {
+	const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+	let units = 0;
+	for (const char of value) {
+		const code = char.charCodeAt(0);
+		units += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH;
+	}
+	return (units * size) / 1000;
+}
+
+export function truncateText(value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+	if (measureText(value, size, font) <= maxWidth) return value;
+	let truncated = value;
+	while (truncated.length > 0 && measureText(`${truncated}...`, size, font) > maxWidth) {
+		truncated = truncated.slice(0, -1);
+	}
+	return `${truncated.trimEnd()}...`;
+}
+
+// Punctuation that WinAnsi places in the 0x80-0x9F range, as octal codes
+const WIN_ANSI_EXTRAS: Record<string, string> = {
+	'\u2013': '226', // En dash
+	'\u2014': '227', // Em dash
+	'\u2018': '221',
+	'\u2019': '222',
+	'\u201c': '223',
+	'\u201d': '224',
+	'\u2022': '225', // Bullet
+	'\u2026': '205', // Ellipsis
+};
+
+// Text strings use WinAnsiEncoding, which matches Latin-1 for the characters we expect in
+// names. Anything else is replaced rather than breaking the document.
+function encodeText(value: string): string {
+	let encoded = '';
+	for (const char of value) {
+		const code = char.charCodeAt(0);
+		if (char === '(' || char === ')' || char === '\\') {
+			encoded += `\\${char}`;
+		} else if (code >= 32 && code <= 126) {
+			encoded += char;
+		} else if (code >= 160 && code <= 255) {
+			encoded += `\\${code.toString(8).padStart(3, '0')}`;
+		} else if (WIN_ANSI_EXTRAS[char]) {
+			encoded += `\\${WIN_ANSI_EXTRAS[char]}`;
+		} else {
+			encoded += '?';
+		}
+	}
+	return encoded;
+}
+
+function num(value: number): string {
+	return Number(value.toFixed(2)).toString();
+}
+
+function colorOp(color: PdfColor, operator: 'rg' | 'RG'): string {
+	return `${color.map(num).join(' ')} ${operator}`;
+}
+
+export function createPdfDocument(options: PdfDocumentOptions = {}): PdfDocument {
+	const base = PAGE_SIZES[options.size ?? 'a4'];
+	const landscape = options.orientation === 'landscape';
+	const width = landscape ? base.height : base.width;
+	const height = landscape ? base.width : base.height;
+	const pages: string[][] = [];
+
+	const addPage = (): PdfPage => {
+		const ops: string[] = [];
+		pages.push(ops);
+
+		return {
+			width,
+			height,
+			text(x, y, value, textOptions = {}) {
+				const size = textOptions.size ?? 10;
+				const font = textOptions.font ?? 'regular';
+				const content = textOptions.maxWidth ? truncateText(value, textOptions.maxWidth, size, font) : value;
+				const textWidth = measureText(content, size, font);
+				const left = textOptions.align === 'center' ? x - textWidth / 2 : textOptions.align === 'right' ? x - textWidth : x;
+				// y is the top of the line; PDF places text on its baseline
+				const baseline = height - y - size * 0.8;
+				ops.push(
+					`BT ${colorOp(textOptions.color ?? [0, 0, 0], 'rg')} /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(baseline)} Td (${encodeText(content)}) Tj ET`
+				);
+			},
+			line(x1, y1, x2, y2, lineOptions = {}) {
+				const dash = lineOptions.dash ? `[${num(lineOptions.dash)}] 0 d` : '[] 0 d';
+				ops.push(
+					`${num(lineOptions.width ?? 0.5)} w ${dash} ${colorOp(lineOptions.color ?? [0, 0, 0], 'RG')} ${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`
+				);
+			},
+			rect(x, y, rectWidth, rectHeight, rectOptions = {}) {
+				const path = `${num(x)} ${num(height - y - rectHeight)} ${num(rectWidth)} ${num(rectHeight)} re`;
+				if (rectOptions.fill && rectOptions.stroke) {
+					ops.push(`${num(rectOptions.lineWidth ?? 0.5)} w [] 0 d ${colorOp(rectOptions.fill, 'rg')} ${colorOp(rectOptions.stroke, 'RG')} ${path} B`);
+				} else if (rectOptions.fill) {
+					ops.push(`${colorOp(rectOptions.fill, 'rg')} ${path} f`);
+				} else {
+					ops.push(`${num(rectOptions.lineWidth ?? 0.5)} w [] 0 d ${colorOp(rectOptions.stroke ?? [0, 0, 0], 'RG')} ${path} S`);
+				}
+			},
+		};
+	};
+
+	const toBlob = (): Blob => {
+		// Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+		const objects: string[] = [];
+		const pageIds = pages.map((_, i) => 6 + i * 2);
+		objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+		objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+		objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+		objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+		objects[5] = `<< /Title (${encodeText(options.title ?? 'Attendance')}) /Producer (Attendance) >>`;
+		pages.forEach((ops, i) => {
+			const stream = ops.join('\n');
+			objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] `
+				+ `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+			objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+		});
+
+		// Every character written is single-byte, so string length equals byte offset
+		let output = '%PDF-1.4\n';
+		const offsets: number[] = [];
+		for (let id = 1; id < objects.length; id++) {
+			offsets[id] = output.length;
+			output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+		}
+		const xref = output.length;
+		output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+		for (let id = 1; id < objects.length; id++) {
+			output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+		}
+		output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+		const bytes = new Uint8Array(output.length);
+		for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+		return new Blob([bytes], { type: 'application/pdf' });
+	};
+
+	return { width, height, addPage, pageCount: () => pages.length, toBlob };
+}
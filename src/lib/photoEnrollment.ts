@@ -0,0 +1,63 @@
+// Helpers for enrolling faces from existing photos (e.g. ID cards) named by student ID.
+
+export const PHOTO_FILE_PATTERN = /\.(jpe?g|png|webp|bmp|gif)$/i;
+
+// "photos/grade9/S1001.JPG" -> "S1001"
+export function studentIdFromFileName(fileName: string): string {
+	const base = fileName.split(/[\\/]/).pop() ?? fileName;
+	return base.replace(/\.[^.]+$/, '').trim();
+}
+
+export function isPhotoFile(file: File): boolean {
+	return file.type.startsWith('image/') || PHOTO_FILE_PATTERN.test(file.name);
+}
+
+export function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error('Could not read image'));
+		image.src = url;
+	});
+}
+
+function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+	const reader = directory.createReader();
+	const entries: FileSystemEntry[] = [];
+	// readEntries returns results in batches until it yields an empty list
+	return new Promise((resolve, reject) => {
+		const readBatch = () => {
+			reader.readEntries(batch => {
+				if (batch.length === 0) {
+					resolve(entries);
+				} else {
+					entries.push(...batch);
+					readBatch();
+				}
+			}, reject);
+		};
+		readBatch();
+	});
+}
+
+async function filesFromEntry(entry: FileSystemEntry): Promise<File[]> {
+	if (entry.isFile) {
+		return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+	}
+	if (entry.isDirectory) {
+		const children = await readDirectory(entry as FileSystemDirectoryEntry);
+		return (await Promise.all(children.map(filesFromEntry))).flat();
+	}
+	return [];
+}
+
+// Dropped folders arrive as directory entries, so walk them to collect every file inside
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<File[]> {
+	const entries = Array.from(dataTransfer.items)
+		.map(item => item.webkitGetAsEntry?.())
+		.filter((entry): entry is FileSystemEntry => !!entry);
+	if (entries.length === 0) {
+		return Array.from(dataTransfer.files);
+	}
+	return (await Promise.all(entries.map(filesFromEntry))).flat();
+}
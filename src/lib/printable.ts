@@ -0,0 +1,277 @@
+// Printable attendance documents: a monthly class register and a one-page daily summary.
+// Both are laid out with the PDF writer so they can be produced offline.
+
+import { endOfMonth, format, isWeekend, eachDayOfInterval, startOfMonth } from 'date-fns';
+import { ATTENDANCE_STATUSES, AttendanceDetails, AttendanceStatus, attendanceRate, describeAttendance, formatArrivalTime, getStatusInfo, isAttended, toDateKey, worstStatus } from './attendance';
+import { ExportRecord, ExportStudent } from './export';
+import { PdfColor, PdfPage, createPdfDocument } from './pdf';
+
+export interface PrintableClassHeader {
+	className: string;
+	subject: string;
+	period: string | null;
+	teacherName: string | null;
+	schoolName?: string | null;
+}
+
+export interface DailySummaryRow {
+	name: string;
+	details: AttendanceDetails;
+	firstSeenAt: string | null;
+}
+
+const MARGIN = 28;
+const MUTED: PdfColor = [0.4, 0.4, 0.45];
+const RULE: PdfColor = [0.75, 0.75, 0.78];
+const SHADE: PdfColor = [0.93, 0.93, 0.95];
+const ABSENT: PdfColor = [0.75, 0.1, 0.1];
+
+function classLine(header: PrintableClassHeader): string {
+	return [header.className, header.subject, header.period].filter(Boolean).join(' • ');
+}
+
+function drawHeading(page: PdfPage, title: string, subtitle: string, header: PrintableClassHeader): number {
+	const right = page.width - MARGIN;
+	page.text(MARGIN, MARGIN, title, { size: 16, font: 'bold' });
+	page.text(right, MARGIN + 2, subtitle, { size: 12, font: 'bold', align: 'right' });
+	page.text(MARGIN, MARGIN + 24, classLine(header), { size: 10, maxWidth: page.width / 2 });
+	page.text(MARGIN, MARGIN + 38, `Teacher: ${header.teacherName ?? '—'}`, { size: 10 });
+	if (header.schoolName) {
+		page.text(right, MARGIN + 24, header.schoolName, { size: 10, align: 'right' });
+	}
+	page.line(MARGIN, MARGIN + 54, right, MARGIN + 54, { width: 1 });
+	return MARGIN + 64;
+}
+
+function drawSignatureLines(page: PdfPage, y: number, labels: string[]) {
+	const gap = 24;
+	const width = (page.width - MARGIN * 2 - gap * (labels.length - 1)) / labels.length;
+	labels.forEach((label, i) => {
+		const x = MARGIN + i * (width + gap);
+		page.line(x, y + 24, x + width, y + 24, { width: 0.75 });
+		page.text(x, y + 28, label, { size: 8, color: MUTED });
+	});
+}
+
+function drawPageFooters(pages: PdfPage[], generatedAt: Date) {
+	pages.forEach((page, i) => {
+		const y = page.height - MARGIN + 6;
+		page.text(MARGIN, y, `Generated ${format(generatedAt, 'PPp')}`, { size: 7, color: MUTED });
+		page.text(page.width - MARGIN, y, `Page ${i + 1} of ${pages.length}`, { size: 7, color: MUTED, align: 'right' });
+	});
+}
+
+// Totals columns on the register, counted in days
+const REGISTER_TOTALS: { label: string; matches: (status: AttendanceStatus) => boolean }[] = [
+	{ label: 'Att', matches: isAttended },
+	{ label: 'Late', matches: status => status === 'late' },
+	{ label: 'Exc', matches: status => status === 'excused' },
+	{ label: 'Abs', matches: status => status === 'absent' },
+];
+
+// A month-long register: one row per student, one column per calendar day. Days with several
+// sessions show the least favourable status, matching the student profile heatmap.
+export function buildMonthlyRegisterPdf(options: {
+	header: PrintableClassHeader;
+	month: Date;
+	students: ExportStudent[];
+	records: ExportRecord[];
+	generatedAt?: Date;
+}): Blob {
+	const { header, month, records } = options;
+	const generatedAt = options.generatedAt ?? new Date();
+	const students = [...options.students].sort((a, b) => a.name.localeCompare(b.name));
+	const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) });
+	const doc = createPdfDocument({ orientation: 'landscape', title: `${header.className} register ${format(month, 'MMMM yyyy')}` });
+
+	const statusesByCell = new Map<string, AttendanceStatus[]>();
+	records.forEach(record => {
+		const key = `${record.student_id}|${record.date}`;
+		statusesByCell.set(key, [...(statusesByCell.get(key) ?? []), record.status]);
+	});
+	const sessionDays = new Set(records.map(r => r.date));
+	const dayStatus = (studentId: string, day: Date): AttendanceStatus | null => {
+		const statuses = statusesByCell.get(`${studentId}|${toDateKey(day)}`);
+		return statuses ? worstStatus(statuses) : null;
+	};
+
+	const pages: PdfPage[] = [];
+	const nameWidth = 150;
+	const totalWidth = 26;
+	const rateWidth = 34;
+	const rowHeight = 14;
+	const headerHeight = 24;
+	let page: PdfPage;
+	const dayWidth = (doc.width - MARGIN * 2 - nameWidth - totalWidth * REGISTER_TOTALS.length - rateWidth) / days.length;
+	const dayX = (i: number) => MARGIN + nameWidth + i * dayWidth;
+	const totalsX = dayX(days.length);
+	const tableBottom = doc.height - MARGIN - 16;
+	const weekends = days.map(day => isWeekend(day));
+
+	const startPage = (): number => {
+		page = doc.addPage();
+		pages.push(page);
+		const top = drawHeading(page, 'Attendance Register', format(month, 'MMMM yyyy'), header);
+
+		days.forEach((day, i) => {
+			if (weekends[i]) {
+				page.rect(dayX(i), top, dayWidth, headerHeight, { fill: SHADE });
+			}
+			page.text(dayX(i) + dayWidth / 2, top + 3, format(day, 'd'), { size: 7, font: 'bold', align: 'center' });
+			page.text(dayX(i) + dayWidth / 2, top + 13, format(day, 'EEEEE'), { size: 6, align: 'center', color: MUTED });
+		});
+		page.text(MARGIN + 2, top + 8, 'Student', { size: 8, font: 'bold' });
+		REGISTER_TOTALS.forEach((total, i) => {
+			page.text(totalsX + i * totalWidth + totalWidth / 2, top + 8, total.label, { size: 7, font: 'bold', align: 'center' });
+		});
+		page.text(totalsX + REGISTER_TOTALS.length * totalWidth + rateWidth / 2, top + 8, 'Rate', { size: 7, font: 'bold', align: 'center' });
+		page.line(MARGIN, top + headerHeight, page.width - MARGIN, top + headerHeight, { width: 0.75 });
+		return top + headerHeight;
+	};
+
+	let y = startPage();
+
+	const drawRow = (label: string, cells: string[], totals: string[], options: { bold?: boolean; colors?: (PdfColor | undefined)[] } = {}) => {
+		if (y + rowHeight > tableBottom) {
+			y = startPage();
+		}
+		const font = options.bold ? 'bold' : 'regular';
+		weekends.forEach((weekend, i) => {
+			if (weekend) page.rect(dayX(i), y, dayWidth, rowHeight, { fill: SHADE });
+		});
+		page.text(MARGIN + 2, y + 3.5, label, { size: 7.5, font, maxWidth: nameWidth - 4 });
+		cells.forEach((cell, i) => {
+			if (cell) {
+				page.text(dayX(i) + dayWidth / 2, y + 3.5, cell, { size: 7, font, align: 'center', color: options.colors?.[i] });
+			}
+		});
+		totals.forEach((total, i) => {
+			const x = i < REGISTER_TOTALS.length
+				? totalsX + i * totalWidth + totalWidth / 2
+				: totalsX + REGISTER_TOTALS.length * totalWidth + rateWidth / 2;
+			page.text(x, y + 3.5, total, { size: 7.5, font, align: 'center' });
+		});
+		y += rowHeight;
+		page.line(MARGIN, y, page.width - MARGIN, y, { width: 0.25, color: RULE });
+	};
+
+	students.forEach(student => {
+		const statuses = days.map(day => dayStatus(student.id, day));
+		const recorded = statuses.filter((status): status is AttendanceStatus => status !== null);
+		const rate = attendanceRate(recorded);
+		drawRow(
+			student.name,
+			statuses.map(status => (status ? getStatusInfo(status).code : '')),
+			[...REGISTER_TOTALS.map(total => String(recorded.filter(total.matches).length)), rate !== null ? `${rate}%` : '—'],
+			{ colors: statuses.map(status => (status === 'absent' ? ABSENT : undefined)) }
+		);
+	});
+
+	// Daily totals across the class
+	const dailyAttended = days.map(day => {
+		if (!sessionDays.has(toDateKey(day))) return '';
+		return String(students.filter(student => {
+			const status = dayStatus(student.id, day);
+			return status !== null && isAttended(status);
+		}).length);
+	});
+	const allStatuses = students.flatMap(student => days.map(day => dayStatus(student.id, day)).filter((s): s is AttendanceStatus => s !== null));
+	const classRate = attendanceRate(allStatuses);
+	drawRow('Attended', dailyAttended, [...REGISTER_TOTALS.map(total => String(allStatuses.filter(total.matches).length)), classRate !== null ? `${classRate}%` : '—'], { bold: true });
+
+	// Key, summary and signatures stay together at the end
+	if (y + 90 > tableBottom) {
+		y = startPage();
+	}
+	y += 10;
+	page.text(MARGIN, y, ATTENDANCE_STATUSES.map(s => `${s.code} ${s.label}`).join('   '), { size: 8, color: MUTED });
+	page.text(page.width - MARGIN, y, `School days: ${sessionDays.size}   Students: ${students.length}`, { size: 8, color: MUTED, align: 'right' });
+	drawSignatureLines(page, y + 22, ['Teacher signature', 'Date', 'Reviewed by (office)']);
+
+	drawPageFooters(pages, generatedAt);
+	return doc.toBlob();
+}
+
+// A single page for one session: headline numbers, status breakdown and every student's status.
+// Long classes switch to two columns and tighter rows so the summary never spills onto a second page.
+export function buildDailySummaryPdf(options: {
+	header: PrintableClassHeader;
+	date: Date;
+	sessionName: string;
+	scannedAt: string | null;
+	rows: DailySummaryRow[];
+	generatedAt?: Date;
+}): Blob {
+	const { header, date, sessionName, scannedAt } = options;
+	const generatedAt = options.generatedAt ?? new Date();
+	const rows = [...options.rows].sort((a, b) => a.name.localeCompare(b.name));
+	const doc = createPdfDocument({ title: `${header.className} ${sessionName} ${toDateKey(date)}` });
+	const page = doc.addPage();
+	const contentWidth = page.width - MARGIN * 2;
+	let y = drawHeading(page, 'Daily Attendance Summary', format(date, 'EEEE, d MMMM yyyy'), header);
+
+	page.text(MARGIN, y, `Session: ${sessionName}${scannedAt ? `   Recorded at ${formatArrivalTime(scannedAt)}` : ''}`, { size: 10 });
+	y += 22;
+
+	// Headline numbers
+	const attended = rows.filter(row => isAttended(row.details.status)).length;
+	const rate = attendanceRate(rows.map(row => row.details.status));
+	const stats = [
+		{ label: 'Students', value: String(rows.length) },
+		{ label: 'Attended', value: String(attended) },
+		{ label: 'Not attended', value: String(rows.length - attended) },
+		{ label: 'Attendance rate', value: rate !== null ? `${rate}%` : '—' },
+	];
+	const boxGap = 10;
+	const boxWidth = (contentWidth - boxGap * (stats.length - 1)) / stats.length;
+	stats.forEach((stat, i) => {
+		const x = MARGIN + i * (boxWidth + boxGap);
+		page.rect(x, y, boxWidth, 46, { fill: SHADE });
+		page.text(x + boxWidth / 2, y + 8, stat.value, { size: 18, font: 'bold', align: 'center' });
+		page.text(x + boxWidth / 2, y + 32, stat.label, { size: 8, align: 'center', color: MUTED });
+	});
+	y += 60;
+
+	const breakdown = ATTENDANCE_STATUSES
+		.map(s => ({ label: s.label, count: rows.filter(row => row.details.status === s.value).length }))
+		.filter(s => s.count > 0)
+		.map(s => `${s.label}: ${s.count}`)
+		.join('   ');
+	page.text(MARGIN, y, breakdown || 'No students recorded', { size: 9, color: MUTED });
+	y += 22;
+
+	// Student table, sized to fit above the signature block
+	const signatureTop = page.height - MARGIN - 70;
+	const available = signatureTop - y - 16;
+	const columns = rows.length > Math.floor(available / 14) ? 2 : 1;
+	const perColumn = Math.max(1, Math.ceil(rows.length / columns));
+	const rowHeight = Math.min(14, available / perColumn);
+	const fontSize = Math.min(9, rowHeight * 0.7);
+	const columnGap = 16;
+	const columnWidth = (contentWidth - columnGap * (columns - 1)) / columns;
+	const nameWidth = columnWidth * 0.5;
+	const statusWidth = columnWidth * 0.32;
+
+	for (let column = 0; column < columns; column++) {
+		const x = MARGIN + column * (columnWidth + columnGap);
+		page.text(x, y, 'Student', { size: 8, font: 'bold' });
+		page.text(x + nameWidth, y, 'Status', { size: 8, font: 'bold' });
+		page.text(x + columnWidth, y, 'Arrived', { size: 8, font: 'bold', align: 'right' });
+		page.line(x, y + 12, x + columnWidth, y + 12, { width: 0.75 });
+
+		rows.slice(column * perColumn, (column + 1) * perColumn).forEach((row, i) => {
+			const rowY = y + 14 + i * rowHeight;
+			const color = isAttended(row.details.status) ? undefined : ABSENT;
+			page.text(x, rowY + (rowHeight - fontSize) / 2, row.name, { size: fontSize, maxWidth: nameWidth - 6 });
+			page.text(x + nameWidth, rowY + (rowHeight - fontSize) / 2, describeAttendance(row.details), { size: fontSize, maxWidth: statusWidth - 4, color });
+			if (row.firstSeenAt) {
+				page.text(x + columnWidth, rowY + (rowHeight - fontSize) / 2, formatArrivalTime(row.firstSeenAt), { size: fontSize, align: 'right' });
+			}
+			page.line(x, rowY + rowHeight, x + columnWidth, rowY + rowHeight, { width: 0.25, color: RULE });
+		});
+	}
+
+	drawSignatureLines(page, signatureTop, ['Teacher signature', 'Date']);
+	drawPageFooters([page], generatedAt);
+	return doc.toBlob();
+}
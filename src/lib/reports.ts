@@ -0,0 +1,93 @@
+// Attendance analytics for the reports page. Pure functions over attendance records so they
+// can be reused by exports.
+
+import { AttendanceStatus, attendanceRate, isAttended, parseDateKey } from './attendance';
+
+export interface ReportRecord {
+	student_id: string;
+	date: string;
+	status: AttendanceStatus;
+	session_name: string;
+}
+
+export interface DailyRate {
+	date: string;
+	rate: number;
+	attended: number;
+	total: number;
+}
+
+export interface StudentSummary {
+	id: string;
+	name: string;
+	total: number;
+	attended: number;
+	absences: number; // Unexcused
+	excused: number;
+	lates: number;
+	rate: number | null;
+}
+
+export interface WeekdayRate {
+	weekday: string;
+	rate: number | null;
+	total: number;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function dailyRates(records: ReportRecord[]): DailyRate[] {
+	const byDate = new Map<string, AttendanceStatus[]>();
+	records.forEach(record => {
+		byDate.set(record.date, [...(byDate.get(record.date) ?? []), record.status]);
+	});
+
+	return Array.from(byDate.entries())
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([date, statuses]) => ({
+			date,
+			rate: attendanceRate(statuses) ?? 0,
+			attended: statuses.filter(isAttended).length,
+			total: statuses.length,
+		}));
+}
+
+export function studentSummaries(records: ReportRecord[], students: { id: string; name: string }[]): StudentSummary[] {
+	return students
+		.map(student => {
+			const statuses = records.filter(r => r.student_id === student.id).map(r => r.status);
+			return {
+				id: student.id,
+				name: student.name,
+				total: statuses.length,
+				attended: statuses.filter(isAttended).length,
+				absences: statuses.filter(s => s === 'absent').length,
+				excused: statuses.filter(s => s === 'excused').length,
+				lates: statuses.filter(s => s === 'late').length,
+				rate: attendanceRate(statuses),
+			};
+		})
+		.sort((a, b) => b.absences - a.absences || a.name.localeCompare(b.name));
+}
+
+// Monday-first; weekends only appear when something was recorded on them
+export function weekdayRates(records: ReportRecord[]): WeekdayRate[] {
+	const byWeekday: AttendanceStatus[][] = WEEKDAYS.map(() => []);
+	records.forEach(record => {
+		const date = parseDateKey(record.date);
+		if (!date) return;
+		byWeekday[(date.getDay() + 6) % 7].push(record.status);
+	});
+
+	return WEEKDAYS.map((weekday, index) => ({
+		weekday,
+		rate: attendanceRate(byWeekday[index]),
+		total: byWeekday[index].length,
+	})).filter((day, index) => index < 5 || day.total > 0);
+}
+
+export function studentsBelowThreshold(summaries: StudentSummary[], threshold: number): StudentSummary[] {
+	return summaries
+		.filter(summary => summary.rate !== null && summary.rate < threshold)
+		.sort((a, b) => (a.rate ?? 0) - (b.rate ?? 0));
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseRoster } from './roster';
+
+describe('parseCsv', () => {
+	it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+		const rows = parseCsv('id,name\n1,"Smith, Ann ""Annie"""\n2,"Line one\nline two"\n');
+
+		expect(rows.map(row => row.cells)).toEqual([
+			['id', 'name'],
+			['1', 'Smith, Ann "Annie"'],
+			['2', 'Line one\nline two'],
+		]);
+	});
+
+	it('strips a byte order mark', () => {
+		expect(parseCsv('\uFEFFid,name\r\n1,Ann')[0].cells).toEqual(['id', 'name']);
+	});
+
+	it('accepts CRLF, CR and LF line endings', () => {
+		const rows = parseCsv('a\r\nb\rc\nd');
+		expect(rows.map(row => row.cells[0])).toEqual(['a', 'b', 'c', 'd']);
+		expect(rows.map(row => row.line)).toEqual([1, 2, 3, 4]);
+	});
+
+	it('numbers each row by the line it starts on', () => {
+		const rows = parseCsv('id,note\r\n1,"two\r\nlines"\r\n2,"three\n\nlines"\n3,done');
+		expect(rows.map(row => row.line)).toEqual([1, 2, 4, 7]);
+	});
+});
+
+describe('parseRoster', () => {
+	it('matches header aliases regardless of case and punctuation', () => {
+		const { entries, issues } = parseRoster(
+			'Student No.,Student Name,E-mail,Parent,Parent Phone\nS1,Ann  Lee ,ann@school.org,Bo Lee,555-0100'
+		);
+
+		expect(issues).toEqual([]);
+		expect(entries).toEqual([{
+			line: 2,
+			student_id: 'S1',
+			full_name: 'Ann Lee',
+			email: 'ann@school.org',
+			guardian_name: 'Bo Lee',
+			guardian_contact: '555-0100',
+		}]);
+	});
+
+	it('requires the student ID and name columns', () => {
+		expect(parseRoster('id,email\n1,a@b.co').issues).toEqual([
+			{ line: 1, message: 'The first row must name the student_id and full_name columns' },
+		]);
+		expect(parseRoster('').issues).toEqual([{ line: 1, message: 'The file is empty' }]);
+	});
+
+	it('reports duplicate IDs against the first occurrence', () => {
+		const { entries, issues } = parseRoster('id,name\nS1,Ann\nS2,Ben\nS1,Ann again');
+
+		expect(entries.map(entry => entry.student_id)).toEqual(['S1', 'S2']);
+		expect(issues).toEqual([{ line: 4, message: 'S1 is already listed on line 2' }]);
+	});
+
+	it('rejects invalid emails and leaves missing ones empty', () => {
+		const { entries, issues } = parseRoster('id,name,email\nS1,Ann,not-an-email\nS2,Ben,');
+
+		expect(issues).toEqual([{ line: 2, message: 'Invalid email "not-an-email"' }]);
+		expect(entries).toHaveLength(1);
+		expect(entries[0].email).toBeNull();
+	});
+
+	it('reports missing values and skips blank rows', () => {
+		const { entries, issues } = parseRoster('id,name\n,Ann\n\n , \nS2,\nS3,Cy');
+
+		expect(entries.map(entry => entry.student_id)).toEqual(['S3']);
+		expect(issues).toEqual([
+			{ line: 2, message: 'Missing student ID' },
+			{ line: 5, message: 'Missing name for S2' },
+		]);
+	});
+
+	it('reports file lines after a quoted field with a line break', () => {
+		const { entries, issues } = parseRoster('id,name,guardian\nS1,Ann,"Bo Lee\nand Cy Lee"\nS1,Ann');
+
+		expect(entries[0].guardian_name).toBe('Bo Lee and Cy Lee');
+		expect(issues).toEqual([{ line: 4, message: 'S1 is already listed on line 2' }]);
+	});
+});
@@ -0,0 +1,156 @@
+// Parses roster CSVs for bulk import: student_id and full_name are required, email and guardian
+// details optional. Header names are matched loosely so exports from school systems work as-is.
+
+export interface RosterEntry {
+	line: number; // 1-based line of the file, for error messages
+	student_id: string;
+	full_name: string;
+	email: string | null;
+	guardian_name: string | null;
+	guardian_contact: string | null;
+}
+
+export interface RosterIssue {
+	line: number;
+	message: string;
+}
+
+export interface ParsedRoster {
+	entries: RosterEntry[];
+	issues: RosterIssue[];
+}
+
+type RosterField = 'student_id' | 'full_name' | 'email' | 'guardian_name' | 'guardian_contact';
+
+// Header text with everything but letters and digits removed, lowercased
+const HEADER_ALIASES: Record<string, RosterField> = {
+	studentid: 'student_id',
+	id: 'student_id',
+	studentnumber: 'student_id',
+	studentno: 'student_id',
+	fullname: 'full_name',
+	name: 'full_name',
+	studentname: 'full_name',
+	email: 'email',
+	studentemail: 'email',
+	guardian: 'guardian_name',
+	guardianname: 'guardian_name',
+	parent: 'guardian_name',
+	parentname: 'guardian_name',
+	guardiancontact: 'guardian_contact',
+	guardianemail: 'guardian_contact',
+	guardianphone: 'guardian_contact',
+	parentemail: 'guardian_contact',
+	parentphone: 'guardian_contact',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_FIELD_LENGTH = 200;
+
+export interface CsvRow {
+	line: number; // 1-based line of the file the row starts on
+	cells: string[];
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks, so a row can
+// span several lines of the file
+export function parseCsv(text: string): CsvRow[] {
+	const rows: CsvRow[] = [];
+	let cells: string[] = [];
+	let field = '';
+	let quoted = false;
+	let line = 1;
+	let rowLine = 1;
+	const input = text.replace(/^\uFEFF/, '');
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+		if (quoted) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			cells.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') {
+				i++;
+				line++;
+			}
+			cells.push(field);
+			rows.push({ line: rowLine, cells });
+			cells = [];
+			field = '';
+			rowLine = line;
+		} else {
+			field += char;
+		}
+	}
+	if (field !== '' || cells.length > 0) {
+		cells.push(field);
+		rows.push({ line: rowLine, cells });
+	}
+	return rows;
+}
+
+export function parseRoster(text: string): ParsedRoster {
+	const rows = parseCsv(text);
+	const issues: RosterIssue[] = [];
+	const entries: RosterEntry[] = [];
+	if (rows.length === 0) {
+		return { entries, issues: [{ line: 1, message: 'The file is empty' }] };
+	}
+
+	const columns = new Map<RosterField, number>();
+	const [header, ...body] = rows;
+	header.cells.forEach((name, index) => {
+		const field = HEADER_ALIASES[name.toLowerCase().replace(/[^a-z0-9]/g, '')];
+		if (field && !columns.has(field)) columns.set(field, index);
+	});
+	if (!columns.has('student_id') || !columns.has('full_name')) {
+		return { entries, issues: [{ line: header.line, message: 'The first row must name the student_id and full_name columns' }] };
+	}
+
+	const seen = new Map<string, number>();
+	body.forEach(({ line, cells }) => {
+		if (cells.every(cell => cell.trim() === '')) return;
+
+		const value = (field: RosterField): string => {
+			const column = columns.get(field);
+			return column === undefined ? '' : (cells[column] ?? '').trim().replace(/\s+/g, ' ');
+		};
+		const entry: RosterEntry = {
+			line,
+			student_id: value('student_id'),
+			full_name: value('full_name'),
+			email: value('email') || null,
+			guardian_name: value('guardian_name') || null,
+			guardian_contact: value('guardian_contact') || null,
+		};
+
+		if (!entry.student_id) {
+			issues.push({ line, message: 'Missing student ID' });
+		} else if (!entry.full_name) {
+			issues.push({ line, message: `Missing name for ${entry.student_id}` });
+		} else if (seen.has(entry.student_id)) {
+			issues.push({ line, message: `${entry.student_id} is already listed on line ${seen.get(entry.student_id)}` });
+		} else if (entry.email && !EMAIL_PATTERN.test(entry.email)) {
+			issues.push({ line, message: `Invalid email "${entry.email}"` });
+		} else if ([entry.student_id, entry.full_name, entry.email, entry.guardian_name, entry.guardian_contact].some(v => v && v.length > MAX_FIELD_LENGTH)) {
+			issues.push({ line, message: `A value is longer than ${MAX_FIELD_LENGTH} characters` });
+		} else {
+			seen.set(entry.student_id, line);
+			entries.push(entry);
+		}
+	});
+
+	return { entries, issues };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { computeTiles, intersectionOverUnion, nonMaxSuppression } from './tiling';
+
+describe('intersectionOverUnion', () => {
+	it('is 1 for identical boxes and 0 for disjoint ones', () => {
+		const box = { x: 10, y: 10, width: 20, height: 20 };
+		expect(intersectionOverUnion(box, box)).toBe(1);
+		expect(intersectionOverUnion(box, { x: 50, y: 50, width: 20, height: 20 })).toBe(0);
+	});
+
+	it('divides the overlap by the combined area', () => {
+		// 10x10 overlap, union 400 + 400 - 100
+		const a = { x: 0, y: 0, width: 20, height: 20 };
+		const b = { x: 10, y: 10, width: 20, height: 20 };
+		expect(intersectionOverUnion(a, b)).toBeCloseTo(100 / 700);
+	});
+
+	it('is 0 for empty boxes', () => {
+		const empty = { x: 0, y: 0, width: 0, height: 0 };
+		expect(intersectionOverUnion(empty, empty)).toBe(0);
+	});
+});
+
+describe('computeTiles', () => {
+	it('covers the frame at every scale', () => {
+		const tiles = computeTiles(1280, 720, { grids: [1, 2, 3], overlap: 0.25 });
+		expect(tiles).toHaveLength(1 + 4 + 9);
+		expect(tiles[0]).toEqual({ x: 0, y: 0, width: 1280, height: 720 });
+
+		for (const tile of tiles) {
+			expect(tile.x).toBeGreaterThanOrEqual(0);
+			expect(tile.y).toBeGreaterThanOrEqual(0);
+			expect(tile.x + tile.width).toBeLessThanOrEqual(1280);
+			expect(tile.y + tile.height).toBeLessThanOrEqual(720);
+		}
+
+		// The last tile of each grid reaches the bottom-right corner
+		const last = tiles[tiles.length - 1];
+		expect(last.x + last.width).toBe(1280);
+		expect(last.y + last.height).toBe(720);
+	});
+
+	it('overlaps neighbouring tiles', () => {
+		const [left, right] = computeTiles(1000, 1000, { grids: [2], overlap: 0.2 });
+		expect(left.x + left.width).toBeGreaterThan(right.x);
+	});
+});
+
+describe('nonMaxSuppression', () => {
+	it('keeps the strongest of overlapping boxes', () => {
+		const kept = nonMaxSuppression([
+			{ box: { x: 0, y: 0, width: 100, height: 100 }, score: 0.6 },
+			{ box: { x: 5, y: 5, width: 100, height: 100 }, score: 0.9 },
+			{ box: { x: 300, y: 300, width: 100, height: 100 }, score: 0.5 },
+		]);
+		expect(kept.map(k => k.score)).toEqual([0.9, 0.5]);
+	});
+
+	it('drops a partial face inside a stronger box even when the overlap is small', () => {
+		const kept = nonMaxSuppression([
+			{ box: { x: 0, y: 0, width: 100, height: 100 }, score: 0.9 },
+			{ box: { x: 60, y: 10, width: 30, height: 40 }, score: 0.7 },
+		]);
+		expect(kept).toHaveLength(1);
+		expect(kept[0].score).toBe(0.9);
+	});
+});
@@ -0,0 +1,85 @@
+// Geometry helpers for tiled, multi-scale classroom scanning
+
+export interface Box {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface TilingOptions {
+	grids: number[]; // Tiles per side for each scale, 1 = the whole frame
+	overlap: number; // Fraction of a tile shared with its neighbour
+}
+
+// Full frame plus 2x2 and 3x3 grids: a 3x3 tile magnifies back-row faces ~3x for the detector
+export const DEFAULT_TILING: TilingOptions = {
+	grids: [1, 2, 3],
+	overlap: 0.25,
+};
+
+export function computeTiles(width: number, height: number, options: TilingOptions = DEFAULT_TILING): Box[] {
+	const tiles: Box[] = [];
+
+	for (const grid of options.grids) {
+		if (grid <= 1) {
+			tiles.push({ x: 0, y: 0, width, height });
+			continue;
+		}
+
+		// Tiles are enlarged by the overlap so faces on a seam appear whole in at least one tile
+		const tileWidth = Math.min(width, Math.ceil((width / grid) * (1 + options.overlap)));
+		const tileHeight = Math.min(height, Math.ceil((height / grid) * (1 + options.overlap)));
+		const stepX = (width - tileWidth) / (grid - 1);
+		const stepY = (height - tileHeight) / (grid - 1);
+
+		for (let row = 0; row < grid; row++) {
+			for (let col = 0; col < grid; col++) {
+				tiles.push({
+					x: Math.round(col * stepX),
+					y: Math.round(row * stepY),
+					width: tileWidth,
+					height: tileHeight,
+				});
+			}
+		}
+	}
+
+	return tiles;
+}
+
+function intersectionArea(a: Box, b: Box): number {
+	const x1 = Math.max(a.x, b.x);
+	const y1 = Math.max(a.y, b.y);
+	const x2 = Math.min(a.x + a.width, b.x + b.width);
+	const y2 = Math.min(a.y + a.height, b.y + b.height);
+	return Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+}
+
+export function intersectionOverUnion(a: Box, b: Box): number {
+	const intersection = intersectionArea(a, b);
+	const union = a.width * a.height + b.width * b.height - intersection;
+	return union > 0 ? intersection / union : 0;
+}
+
+// Greedy NMS. Also drops boxes mostly contained in a stronger one, which is how a face
+// cut in half by a tile edge shows up next to the full detection from a neighbouring tile.
+export function nonMaxSuppression<T extends { box: Box; score: number }>(
+	items: T[],
+	iouThreshold = 0.4,
+	containmentThreshold = 0.8,
+): T[] {
+	const sorted = [...items].sort((a, b) => b.score - a.score);
+	const kept: T[] = [];
+
+	for (const item of sorted) {
+		const suppressed = kept.some(k => {
+			if (intersectionOverUnion(k.box, item.box) > iouThreshold) return true;
+			const smaller = Math.min(k.box.width * k.box.height, item.box.width * item.box.height);
+			return smaller > 0 && intersectionArea(k.box, item.box) / smaller > containmentThreshold;
+		});
+		if (!suppressed) kept.push(item);
+	}
+
+	return kept;
+}
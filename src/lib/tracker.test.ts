@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createFaceTracker } from './tracker';
+import { DetectedFace } from './face';
+
+// One-hot descriptors: the same person is at distance 0, different people at ~1.41
+function descriptor(person: number): Float32Array {
+	const values = new Float32Array(128);
+	values[person] = 1;
+	return values;
+}
+
+function face(person: number, x: number, y: number, size = 100): DetectedFace {
+	return { descriptor: descriptor(person), box: { x, y, width: size, height: size }, score: 0.9 };
+}
+
+describe('createFaceTracker', () => {
+	it('keeps the same ID for an overlapping box even when the descriptor changes', () => {
+		const tracker = createFaceTracker();
+		const [first] = tracker.update([face(0, 100, 100)]);
+		// A blurred frame can give a different descriptor; the overlap alone must carry the track
+		const [second] = tracker.update([face(1, 105, 102)]);
+
+		expect(second.id).toBe(first.id);
+		expect(second.hits).toBe(2);
+	});
+
+	it('re-identifies a face that moved too far to overlap', () => {
+		const tracker = createFaceTracker();
+		const [first] = tracker.update([face(0, 0, 0)]);
+		const [second] = tracker.update([face(0, 600, 400)]);
+
+		expect(second.id).toBe(first.id);
+	});
+
+	it('starts a new track for a different face elsewhere', () => {
+		const tracker = createFaceTracker();
+		const [first] = tracker.update([face(0, 0, 0)]);
+		const tracks = tracker.update([face(1, 600, 400)]);
+
+		expect(tracks).toHaveLength(1);
+		expect(tracks[0].id).not.toBe(first.id);
+	});
+
+	it('prefers the matching descriptor over a stranger with more overlap', () => {
+		const tracker = createFaceTracker();
+		const [a, b] = tracker.update([face(0, 0, 0), face(1, 600, 0)]);
+		// Each face now overlaps the other person's track, but only its own descriptor matches
+		const swapped = tracker.update([face(1, 20, 0), face(0, 580, 0)]);
+
+		expect(swapped.find(t => t.face.descriptor[0] === 1)?.id).toBe(a.id);
+		expect(swapped.find(t => t.face.descriptor[1] === 1)?.id).toBe(b.id);
+	});
+
+	it('confirms a track after enough hits', () => {
+		const tracker = createFaceTracker({ minHits: 3 });
+		expect(tracker.update([face(0, 0, 0)])[0].state).toBe('tentative');
+		expect(tracker.update([face(0, 2, 0)])[0].state).toBe('tentative');
+		expect(tracker.update([face(0, 4, 0)])[0].state).toBe('confirmed');
+	});
+
+	it('drops a tentative track as soon as it is missed', () => {
+		const tracker = createFaceTracker({ minHits: 2 });
+		tracker.update([face(0, 0, 0)]);
+
+		expect(tracker.update([])).toEqual([]);
+	});
+
+	it('coasts a confirmed track through missed frames, then expires it', () => {
+		const tracker = createFaceTracker({ minHits: 2, maxMisses: 3 });
+		tracker.update([face(0, 0, 0)]);
+		const [confirmed] = tracker.update([face(0, 10, 0)]);
+
+		for (let miss = 1; miss <= 3; miss++) {
+			const tracks = tracker.update([]);
+			expect(tracks).toHaveLength(1);
+			expect(tracks[0].id).toBe(confirmed.id);
+			expect(tracks[0].misses).toBe(miss);
+		}
+
+		expect(tracker.update([])).toEqual([]);
+	});
+
+	it('picks a coasting track back up when the face returns', () => {
+		const tracker = createFaceTracker({ minHits: 2, maxMisses: 3 });
+		tracker.update([face(0, 0, 0)]);
+		const [confirmed] = tracker.update([face(0, 0, 0)]);
+		tracker.update([]);
+		const [returned] = tracker.update([face(0, 0, 0)]);
+
+		expect(returned.id).toBe(confirmed.id);
+		expect(returned.misses).toBe(0);
+	});
+
+	it('forgets every track on reset', () => {
+		const tracker = createFaceTracker();
+		tracker.update([face(0, 0, 0)]);
+		tracker.reset();
+
+		expect(tracker.tracks()).toEqual([]);
+	});
+});
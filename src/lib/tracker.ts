@@ -0,0 +1,166 @@
+// Multi-object face tracker: keeps stable IDs for faces across frames without any React state.
+// Association uses box overlap plus descriptor similarity, positions are smoothed with an
+// exponential filter and a constant-velocity prediction.
+
+import { computeEuclideanDistance, DetectedFace } from './face';
+import { intersectionOverUnion, Box } from './tiling';
+import { solveAssignment } from './assignment';
+
+export interface TrackerOptions {
+	iouWeight: number; // Share of the association score from overlap, the rest is descriptor similarity
+	minIou: number; // Pairs below this overlap need a strong descriptor match to associate
+	maxDescriptorDistance: number; // Descriptor distance that counts as zero similarity
+	reidDistance: number; // Descriptor distance that associates even without overlap (fast movement)
+	maxCost: number; // Association cost above which a detection starts a new track
+	positionSmoothing: number; // 0-1, weight of the new detection in the smoothed box
+	velocitySmoothing: number; // 0-1, weight of the newest motion in the velocity estimate
+	minHits: number; // Matches before a track is considered confirmed
+	maxMisses: number; // Consecutive missed frames before a track is dropped
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+	iouWeight: 0.5,
+	minIou: 0.1,
+	maxDescriptorDistance: 0.8,
+	reidDistance: 0.45,
+	maxCost: 0.75,
+	positionSmoothing: 0.6,
+	velocitySmoothing: 0.4,
+	minHits: 2,
+	maxMisses: 5,
+};
+
+export type TrackState = 'tentative' | 'confirmed';
+
+export interface Track {
+	id: string;
+	box: Box; // Smoothed position
+	velocity: { x: number; y: number }; // Center motion per update
+	face: DetectedFace; // Latest detection assigned to this track
+	state: TrackState;
+	hits: number;
+	misses: number; // 0 when the track was seen in the latest update
+	age: number;
+}
+
+export interface FaceTracker {
+	update(faces: DetectedFace[]): Track[];
+	tracks(): Track[];
+	reset(): void;
+}
+
+function predictBox(track: Track): Box {
+	return {
+		...track.box,
+		x: track.box.x + track.velocity.x,
+		y: track.box.y + track.velocity.y,
+	};
+}
+
+function center(box: Box): { x: number; y: number } {
+	return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+export function createFaceTracker(options: Partial<TrackerOptions> = {}): FaceTracker {
+	const config = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+	let tracks: Track[] = [];
+	let nextId = 1;
+
+	const associationCost = (track: Track, predicted: Box, face: DetectedFace): number => {
+		const iou = intersectionOverUnion(predicted, face.box);
+		const descriptorDistance = computeEuclideanDistance(track.face.descriptor, face.descriptor);
+
+		// Gate: either the boxes overlap or the face is clearly the same person
+		if (iou < config.minIou && descriptorDistance > config.reidDistance) {
+			return Infinity;
+		}
+
+		const similarity = Math.max(0, 1 - descriptorDistance / config.maxDescriptorDistance);
+		return 1 - (config.iouWeight * iou + (1 - config.iouWeight) * similarity);
+	};
+
+	const correct = (track: Track, face: DetectedFace, predicted: Box): Track => {
+		const a = config.positionSmoothing;
+		const box = {
+			x: a * face.box.x + (1 - a) * predicted.x,
+			y: a * face.box.y + (1 - a) * predicted.y,
+			width: a * face.box.width + (1 - a) * track.box.width,
+			height: a * face.box.height + (1 - a) * track.box.height,
+		};
+		const previous = center(track.box);
+		const current = center(box);
+		const b = config.velocitySmoothing;
+		const hits = track.hits + 1;
+
+		return {
+			...track,
+			box,
+			velocity: {
+				x: b * (current.x - previous.x) + (1 - b) * track.velocity.x,
+				y: b * (current.y - previous.y) + (1 - b) * track.velocity.y,
+			},
+			face,
+			hits,
+			misses: 0,
+			age: track.age + 1,
+			state: hits >= config.minHits ? 'confirmed' : track.state,
+		};
+	};
+
+	const update = (faces: DetectedFace[]): Track[] => {
+		const predicted = tracks.map(predictBox);
+		const BLOCKED = 1e6;
+
+		// Rows are detections; columns are existing tracks plus one "new track" column per detection
+		const cost = faces.map(face => {
+			const row = tracks.map((track, t) => {
+				const c = associationCost(track, predicted[t], face);
+				return c <= config.maxCost ? c : BLOCKED;
+			});
+			return row.concat(faces.map(() => config.maxCost));
+		});
+
+		const columns = solveAssignment(cost);
+		const matchedTracks = new Set<number>();
+		const next: Track[] = [];
+
+		faces.forEach((face, i) => {
+			const column = columns[i];
+			if (column >= 0 && column < tracks.length && cost[i][column] < BLOCKED) {
+				matchedTracks.add(column);
+				next.push(correct(tracks[column], face, predicted[column]));
+			} else {
+				// Birth
+				next.push({
+					id: `track_${nextId++}`,
+					box: { ...face.box },
+					velocity: { x: 0, y: 0 },
+					face,
+					state: config.minHits <= 1 ? 'confirmed' : 'tentative',
+					hits: 1,
+					misses: 0,
+					age: 1,
+				});
+			}
+		});
+
+		// Unmatched tracks coast on their prediction until they have been missing too long
+		tracks.forEach((track, t) => {
+			if (matchedTracks.has(t)) return;
+			const misses = track.misses + 1;
+			if (misses > config.maxMisses || track.state === 'tentative') return;
+			next.push({ ...track, box: predicted[t], misses, age: track.age + 1 });
+		});
+
+		tracks = next;
+		return tracks;
+	};
+
+	return {
+		update,
+		tracks: () => tracks,
+		reset: () => {
+			tracks = [];
+		},
+	};
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { addVote, tallyVotes, Vote, VoteConfig } from './voting';
+
+const alice: Vote = { id: 'alice', name: 'Alice' };
+const bob: Vote = { id: 'bob', name: 'Bob' };
+const config: VoteConfig = { windowSize: 5, minVotes: 3, minMargin: 2 };
+
+describe('addVote', () => {
+	it('keeps only the most recent votes', () => {
+		let window: Vote[] = [];
+		for (const vote of [bob, bob, alice, alice, alice, null]) {
+			window = addVote(window, vote, config);
+		}
+		expect(window).toEqual([bob, alice, alice, alice, null]);
+	});
+});
+
+describe('tallyVotes', () => {
+	it('is pending with no matches', () => {
+		const tally = tallyVotes([null, null], config);
+		expect(tally.status).toBe('pending');
+		expect(tally.leader).toBeNull();
+		expect(tally.candidates).toEqual([]);
+	});
+
+	it('is pending until the leader has enough votes', () => {
+		expect(tallyVotes([alice, alice, null], config).status).toBe('pending');
+	});
+
+	it('confirms a leader with enough votes and a clear margin', () => {
+		const tally = tallyVotes([alice, alice, bob, alice, null], config);
+		expect(tally.status).toBe('confirmed');
+		expect(tally.leader).toEqual({ id: 'alice', name: 'Alice', votes: 3 });
+		expect(tally.candidates.map(c => c.id)).toEqual(['alice', 'bob']);
+	});
+
+	it('is uncertain when the matches disagree', () => {
+		const tally = tallyVotes([alice, bob, alice, bob], config);
+		expect(tally.status).toBe('uncertain');
+		expect(tally.candidates.map(c => c.votes)).toEqual([2, 2]);
+	});
+
+	it('ignores unmatched attempts when counting', () => {
+		const tally = tallyVotes([null, alice, null, alice, null], config);
+		expect(tally.status).toBe('pending');
+		expect(tally.leader?.votes).toBe(2);
+	});
+});
@@ -0,0 +1,60 @@
+// Multi-frame identity voting: a tracked face is only confirmed as a student after
+// several consistent matches, so one bad frame can't mark the wrong person present.
+
+export interface VoteConfig {
+	windowSize: number; // Recognition attempts kept per track
+	minVotes: number; // Matches needed for the leading student
+	minMargin: number; // Lead required over the runner-up
+}
+
+export const DEFAULT_VOTE_CONFIG: VoteConfig = {
+	windowSize: 8,
+	minVotes: 3,
+	minMargin: 2,
+};
+
+// One recognition attempt; null means the face didn't match anyone
+export type Vote = { id: string; name: string } | null;
+
+export type VoteStatus = 'pending' | 'uncertain' | 'confirmed';
+
+export interface VoteCandidate {
+	id: string;
+	name: string;
+	votes: number;
+}
+
+export interface VoteTally {
+	status: VoteStatus;
+	leader: VoteCandidate | null;
+	candidates: VoteCandidate[]; // Sorted by votes, most first
+}
+
+export function addVote(window: Vote[], vote: Vote, config: VoteConfig = DEFAULT_VOTE_CONFIG): Vote[] {
+	return [...window, vote].slice(-config.windowSize);
+}
+
+export function tallyVotes(window: Vote[], config: VoteConfig = DEFAULT_VOTE_CONFIG): VoteTally {
+	const counts = new Map<string, VoteCandidate>();
+	for (const vote of window) {
+		if (!vote) continue;
+		const candidate = counts.get(vote.id) ?? { id: vote.id, name: vote.name, votes: 0 };
+		candidate.votes++;
+		counts.set(vote.id, candidate);
+	}
+
+	const candidates = [...counts.values()].sort((a, b) => b.votes - a.votes);
+	const leader = candidates[0] ?? null;
+	const runnerUpVotes = candidates[1]?.votes ?? 0;
+	const totalVotes = candidates.reduce((sum, c) => sum + c.votes, 0);
+
+	let status: VoteStatus = 'pending';
+	if (leader && leader.votes >= config.minVotes && leader.votes - runnerUpVotes >= config.minMargin) {
+		status = 'confirmed';
+	} else if (totalVotes >= config.minVotes) {
+		// Enough matches to decide, but they disagree
+		status = 'uncertain';
+	}
+
+	return { status, leader, candidates };
+}
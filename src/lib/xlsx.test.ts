@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildXlsx, Sheet } from './xlsx';
+
+// Reads the stored entries back out through the central directory
+async function readXlsx(sheets: Sheet[]): Promise<Record<string, string>> {
+	const zip = new Uint8Array(await buildXlsx(sheets).arrayBuffer());
+	const view = new DataView(zip.buffer);
+	const decoder = new TextDecoder();
+	const files: Record<string, string> = {};
+
+	const end = zip.length - 22;
+	let central = view.getUint32(end + 16, true);
+	for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+		const nameLength = view.getUint16(central + 28, true);
+		const name = decoder.decode(zip.slice(central + 46, central + 46 + nameLength));
+		const local = view.getUint32(central + 42, true);
+		const dataStart = local + 30 + view.getUint16(local + 26, true);
+		files[name] = decoder.decode(zip.slice(dataStart, dataStart + view.getUint32(local + 18, true)));
+		central += 46 + nameLength;
+	}
+	return files;
+}
+
+function sheetNames(workbook: string): string[] {
+	return Array.from(workbook.matchAll(/<sheet name="([^"]*)"/g), match => match[1]);
+}
+
+describe('buildXlsx', () => {
+	it('names columns past Z with two letters', async () => {
+		const row = Array.from({ length: 53 }, (_, i) => i);
+		const files = await readXlsx([{ name: 'Data', rows: [row] }]);
+		const refs = Array.from(files['xl/worksheets/sheet1.xml'].matchAll(/<c r="([A-Z]+)1"/g), match => match[1]);
+
+		expect(refs.slice(0, 3)).toEqual(['A', 'B', 'C']);
+		expect(refs.slice(24, 29)).toEqual(['Y', 'Z', 'AA', 'AB', 'AC']);
+		expect(refs.slice(51)).toEqual(['AZ', 'BA']);
+	});
+
+	it('writes numbers as values, text inline and skips empty cells', async () => {
+		const files = await readXlsx([{ name: 'Data', rows: [['Name', 'Score'], ['Ana', 91.5], [null, '']] }]);
+		const sheet = files['xl/worksheets/sheet1.xml'];
+
+		expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name</t></is></c>');
+		expect(sheet).toContain('<c r="B2"><v>91.5</v></c>');
+		expect(sheet).toContain('<row r="3"></row>');
+	});
+
+	it('escapes markup and strips control characters', async () => {
+		const files = await readXlsx([{ name: 'Data', rows: [['<b>"R&D"</b>\u0000\u0007\u001f', 'line\tone\r\nline two']] }]);
+		const sheet = files['xl/worksheets/sheet1.xml'];
+
+		expect(sheet).toContain('>&lt;b&gt;&quot;R&amp;D&quot;&lt;/b&gt;</t>');
+		expect(sheet).toContain('>line\tone\r\nline two</t>');
+		expect(Array.from(sheet).filter(char => char < ' ' && !'\t\r\n'.includes(char))).toEqual([]);
+	});
+
+	it('replaces forbidden characters in sheet names and truncates them to 31 characters', async () => {
+		const files = await readXlsx([
+			{ name: 'Math: 1/2 [A]?', rows: [] },
+			{ name: 'A very long class name that will not fit', rows: [] },
+			{ name: '  ', rows: [] },
+		]);
+
+		expect(sheetNames(files['xl/workbook.xml'])).toEqual([
+			'Math  1 2  A',
+			'A very long class name that wil',
+			'Sheet',
+		]);
+	});
+
+	it('numbers duplicate sheet names case-insensitively and keeps them within the limit', async () => {
+		const long = 'B'.repeat(40);
+		const files = await readXlsx([
+			{ name: 'Period 1', rows: [] },
+			{ name: 'period 1', rows: [] },
+			{ name: 'Period 1', rows: [] },
+			{ name: long, rows: [] },
+			{ name: long, rows: [] },
+		]);
+		const names = sheetNames(files['xl/workbook.xml']);
+
+		expect(names.slice(0, 3)).toEqual(['Period 1', 'period 1 2', 'Period 1 3']);
+		expect(names[3]).toBe('B'.repeat(31));
+		expect(names[4]).toBe(`${'B'.repeat(29)} 2`);
+		expect(files['[Content_Types].xml']).toContain('/xl/worksheets/sheet5.xml');
+	});
+
+	it('escapes sheet names in the workbook', async () => {
+		const files = await readXlsx([{ name: 'Q&A <draft>', rows: [] }]);
+		expect(sheetNames(files['xl/workbook.xml'])).toEqual(['Q&amp;A &lt;draft&gt;']);
+	});
+});
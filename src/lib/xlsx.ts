@@ -0,0 +1,114 @@
+// Writes simple XLSX workbooks (text and numbers, bold header row) with the ZIP writer.
+
+import { createZip } from './zip';
+
+export type SheetCell = string | number | null | undefined;
+
+export interface Sheet {
+	name: string;
+	rows: SheetCell[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Control characters other than tab and newlines are invalid in XML
+function isXmlChar(char: string): boolean {
+	const code = char.charCodeAt(0);
+	return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+	return Array.from(value)
+		.filter(isXmlChar)
+		.join('')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+	let name = '';
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+function safeSheetName(name: string, used: Set<string>): string {
+	const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+	let candidate = base;
+	for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+		candidate = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+	}
+	used.add(candidate.toLowerCase());
+	return candidate;
+}
+
+function sheetXml(rows: SheetCell[][]): string {
+	const rowXml = rows.map((row, r) => {
+		const cells = row.map((value, c) => {
+			if (value === null || value === undefined || value === '') return '';
+			const ref = `${columnName(c)}${r + 1}`;
+			const style = r === 0 ? ' s="1"' : '';
+			if (typeof value === 'number' && Number.isFinite(value)) {
+				return `<c r="${ref}"${style}><v>${value}</v></c>`;
+			}
+			return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+		});
+		return `<row r="${r + 1}">${cells.join('')}</row>`;
+	});
+
+	return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+		+ '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+		+ '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+		+ `<sheetData>${rowXml.join('')}</sheetData>`
+		+ '</worksheet>';
+}
+
+export function buildXlsx(sheets: Sheet[]): Blob {
+	const encoder = new TextEncoder();
+	const used = new Set<string>();
+	const names = sheets.map(sheet => safeSheetName(sheet.name, used));
+
+	const files: Record<string, string> = {
+		'[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+			+ '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+			+ '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+			+ '<Default Extension="xml" ContentType="application/xml"/>'
+			+ '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+			+ '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+			+ sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+			+ '</Types>',
+		'_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+			+ '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+			+ '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+			+ '</Relationships>',
+		'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+			+ '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+			+ `<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>`
+			+ '</workbook>',
+		'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+			+ '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+			+ sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+			+ `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+			+ '</Relationships>',
+		// Style 0 is the default, style 1 is bold for the header row
+		'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+			+ '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+			+ '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+			+ '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+			+ '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+			+ '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+			+ '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+			+ '</styleSheet>',
+	};
+	sheets.forEach((sheet, i) => {
+		files[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(sheet.rows);
+	});
+
+	const zip = createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+	return new Blob([zip], { type: XLSX_MIME_TYPE });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+	it('matches the standard check values', () => {
+		expect(crc32(new Uint8Array())).toBe(0);
+		expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+		expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+	});
+});
+
+describe('createZip', () => {
+	const entries = [
+		{ name: 'a.txt', data: encoder.encode('hello') },
+		{ name: 'dir/é.xml', data: encoder.encode('<x/>') },
+	];
+	const zip = createZip(entries, new Date(2024, 4, 17, 13, 45, 30));
+	const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+
+	it('ends with a record pointing at the central directory', () => {
+		const end = zip.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 8, true)).toBe(2);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+
+		const centralSize = view.getUint32(end + 12, true);
+		const centralOffset = view.getUint32(end + 16, true);
+		expect(centralOffset + centralSize).toBe(end);
+		expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+	});
+
+	it('points each central entry at its local header and data', () => {
+		let central = view.getUint32(zip.length - 22 + 16, true);
+
+		for (const entry of entries) {
+			const name = encoder.encode(entry.name);
+			expect(view.getUint32(central, true)).toBe(0x02014b50);
+			expect(view.getUint32(central + 16, true)).toBe(crc32(entry.data));
+			expect(view.getUint16(central + 28, true)).toBe(name.length);
+			expect(zip.slice(central + 46, central + 46 + name.length)).toEqual(name);
+
+			const local = view.getUint32(central + 42, true);
+			expect(view.getUint32(local, true)).toBe(0x04034b50);
+			expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+			expect(view.getUint32(local + 18, true)).toBe(entry.data.length);
+			expect(view.getUint32(local + 22, true)).toBe(entry.data.length);
+			expect(view.getUint16(local + 26, true)).toBe(name.length);
+
+			const dataStart = local + 30 + name.length;
+			expect(zip.slice(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+
+			central += 46 + name.length;
+		}
+	});
+
+	it('stores the modification time in DOS format', () => {
+		// 13:45:30 -> 13 << 11 | 45 << 5 | 15, 2024-05-17 -> 44 << 9 | 5 << 5 | 17
+		expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+		expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+	});
+});
@@ -0,0 +1,97 @@
+// Minimal ZIP writer (stored, no compression). Enough for building XLSX files in the browser
+// without pulling in a spreadsheet library.
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date/time as stored in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+	const encoder = new TextEncoder();
+	const { time, date } = dosDateTime(modified);
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const crc = crc32(entry.data);
+		const size = entry.data.length;
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true); // Version needed
+		local.setUint16(6, 0x0800, true); // UTF-8 names
+		local.setUint16(8, 0, true); // Stored
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, size, true);
+		local.setUint32(22, size, true);
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true);
+		localParts.push(new Uint8Array(local.buffer), name, entry.data);
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, 0x02014b50, true);
+		central.setUint16(4, 20, true); // Version made by
+		central.setUint16(6, 20, true);
+		central.setUint16(8, 0x0800, true);
+		central.setUint16(10, 0, true);
+		central.setUint16(12, time, true);
+		central.setUint16(14, date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, size, true);
+		central.setUint32(24, size, true);
+		central.setUint16(28, name.length, true);
+		central.setUint32(42, offset, true);
+		centralParts.push(new Uint8Array(central.buffer), name);
+
+		offset += 30 + name.length + size;
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+	const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		output.set(part, position);
+		position += part.length;
+	}
+	return output;
+}
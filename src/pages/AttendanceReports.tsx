@@ -0,0 +1,403 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, CalendarDays, TrendingUp, BarChart3, AlertTriangle, Users, Loader2, Printer } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { DateRange } from "react-day-picker";
+import ExportMenu from "@/components/ExportMenu";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { useClassById, useClassEnrollments, useTeacherProfile } from "@/hooks/useClasses";
+import { useClassAttendanceRange } from "@/hooks/useAttendance";
+import { attendanceRate, parseDateKey, toDateKey } from "@/lib/attendance";
+import { ExportFormat, ExportRecord, ExportStudent, buildDailySheet, buildRegisterMatrix, downloadBlob, downloadSheets, exportFileName, registerKeySheet } from "@/lib/export";
+import { buildMonthlyRegisterPdf } from "@/lib/printable";
+import { ReportRecord, dailyRates, studentSummaries, studentsBelowThreshold, weekdayRates } from "@/lib/reports";
+
+const ALL_SESSIONS = "__all__";
+
+const rateChartConfig = {
+  rate: { label: "Attendance %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const defaultRange = (): DateRange => {
+  const to = new Date();
+  const from = new Date();
+  from.setDate(from.getDate() - 29);
+  return { from, to };
+};
+
+// The current month and the eleven before it, newest first
+const registerMonths = () =>
+  Array.from({ length: 12 }, (_, i) => format(subMonths(startOfMonth(new Date()), i), "yyyy-MM"));
+
+const AttendanceReports = () => {
+  const { classId } = useParams();
+  const { data: classData } = useClassById(classId ?? "");
+  const { data: enrollments } = useClassEnrollments(classId ?? "");
+  const [range, setRange] = useState<DateRange | undefined>(defaultRange);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [sessionFilter, setSessionFilter] = useState(ALL_SESSIONS);
+  const [threshold, setThreshold] = useState("90");
+  const [registerMonth, setRegisterMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const { data: teacher } = useTeacherProfile(classData?.teacher_id ?? "");
+
+  const from = range?.from ? toDateKey(range.from) : "";
+  const to = range?.to ? toDateKey(range.to) : from;
+  const { data: rawRecords, isLoading, error } = useClassAttendanceRange(classId ?? "", from, to);
+  const monthStart = parseDateKey(`${registerMonth}-01`) ?? startOfMonth(new Date());
+  const { data: monthRecords, isLoading: monthLoading } = useClassAttendanceRange(
+    classId ?? "",
+    toDateKey(monthStart),
+    toDateKey(endOfMonth(monthStart))
+  );
+
+  const sessionNames = useMemo(
+    () => Array.from(new Set((rawRecords ?? []).map(r => r.attendance_sessions?.name).filter((name): name is string => !!name))).sort(),
+    [rawRecords]
+  );
+
+  const exportRecords: ExportRecord[] = useMemo(
+    () => (rawRecords ?? [])
+      .map(r => ({ ...r, session_name: r.attendance_sessions?.name ?? "" }))
+      .filter(r => sessionFilter === ALL_SESSIONS || r.session_name === sessionFilter),
+    [rawRecords, sessionFilter]
+  );
+
+  const records: ReportRecord[] = useMemo(
+    () => exportRecords.map(r => ({ student_id: r.student_id, date: r.date, status: r.status, session_name: r.session_name })),
+    [exportRecords]
+  );
+
+  const students = useMemo(
+    () => (enrollments ?? []).map(e => ({ id: e.students.id, name: e.students.full_name })),
+    [enrollments]
+  );
+
+  const daily = useMemo(() => dailyRates(records).map(d => ({ ...d, label: format(parseDateKey(d.date)!, "MMM d") })), [records]);
+  const weekdays = useMemo(() => weekdayRates(records).map(d => ({ ...d, rate: d.rate ?? 0 })), [records]);
+  const summaries = useMemo(() => studentSummaries(records, students), [records, students]);
+  const thresholdValue = Math.min(100, Math.max(0, Number(threshold) || 0));
+  const belowThreshold = useMemo(() => studentsBelowThreshold(summaries, thresholdValue), [summaries, thresholdValue]);
+  const overallRate = attendanceRate(records.map(r => r.status));
+
+  // Enrolled students plus anyone with records in the range who has since left the class
+  const exportStudents = useMemo(() => {
+    const byId = new Map<string, ExportStudent>();
+    (enrollments ?? []).forEach(e => byId.set(e.students.id, { id: e.students.id, studentNumber: e.students.student_id, name: e.students.full_name }));
+    (rawRecords ?? []).forEach(r => {
+      if (!byId.has(r.student_id) && r.students) {
+        byId.set(r.student_id, { id: r.student_id, studentNumber: r.students.student_id, name: r.students.full_name });
+      }
+    });
+    return Array.from(byId.values());
+  }, [enrollments, rawRecords]);
+
+  const exportName = (kind: string, format: ExportFormat) =>
+    exportFileName([classData?.name ?? "class", kind, from, to !== from ? to : ""], format);
+
+  const handleExportRegister = (format: ExportFormat) => {
+    downloadSheets(
+      [{ name: "Register", rows: buildRegisterMatrix(exportRecords, exportStudents) }, registerKeySheet()],
+      exportName("register", format),
+      format
+    );
+  };
+
+  const handleExportDaily = (format: ExportFormat) => {
+    downloadSheets(
+      [{ name: "Attendance", rows: buildDailySheet(exportRecords, exportStudents) }],
+      exportName("daily", format),
+      format
+    );
+  };
+
+  const handlePrintRegister = () => {
+    if (!classData) return;
+
+    const records = (monthRecords ?? []).map(r => ({ ...r, session_name: r.attendance_sessions?.name ?? "" }));
+    const students = new Map(exportStudents.map(student => [student.id, student]));
+    (monthRecords ?? []).forEach(r => {
+      if (!students.has(r.student_id) && r.students) {
+        students.set(r.student_id, { id: r.student_id, studentNumber: r.students.student_id, name: r.students.full_name });
+      }
+    });
+
+    const blob = buildMonthlyRegisterPdf({
+      header: {
+        className: classData.name,
+        subject: classData.subject,
+        period: classData.period,
+        teacherName: teacher?.full_name ?? null,
+        schoolName: teacher?.school_name
+      },
+      month: monthStart,
+      students: Array.from(students.values()),
+      records
+    });
+    downloadBlob(blob, exportFileName([classData.name, "register", registerMonth], "pdf"));
+  };
+
+  const rangeLabel = range?.from
+    ? `${range.from.toLocaleDateString()}${range.to ? ` – ${range.to.toLocaleDateString()}` : ""}`
+    : "Pick a date range";
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-gradient-primary shadow-soft">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild className="text-primary-foreground hover:bg-primary-foreground/10">
+              <Link to={`/class/${classId}`}>
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-primary-foreground">
+                Attendance Reports
+              </h1>
+              <p className="text-sm text-primary-foreground/80">
+                {classData?.name ?? "Class"} {classData?.subject ? `• ${classData.subject}` : ""}
+              </p>
+            </div>
+            {overallRate !== null && (
+              <Badge variant="secondary" className="text-sm">
+                {overallRate}% Average
+              </Badge>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Date Range</Label>
+            <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="flex">
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  {rangeLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  selected={range}
+                  onSelect={setRange}
+                  defaultMonth={range?.from}
+                  numberOfMonths={2}
+                  disabled={{ after: new Date() }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-1">
+            <Label>Session</Label>
+            <Select value={sessionFilter} onValueChange={setSessionFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SESSIONS}>All sessions</SelectItem>
+                {sessionNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="threshold">Flag students below (%)</Label>
+            <Input
+              id="threshold"
+              type="number"
+              min={0}
+              max={100}
+              className="w-28"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1 ml-auto">
+            <Label>Monthly register</Label>
+            <div className="flex gap-2">
+              <Select value={registerMonth} onValueChange={setRegisterMonth}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {registerMonths().map(month => (
+                    <SelectItem key={month} value={month}>
+                      {format(parseDateKey(`${month}-01`)!, "MMMM yyyy")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handlePrintRegister} disabled={!classData || monthLoading}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print PDF
+              </Button>
+            </div>
+          </div>
+          <ExportMenu
+            disabled={records.length === 0}
+            options={[
+              { label: "Register (students × dates)", onExport: handleExportRegister },
+              { label: "Daily sheet", onExport: handleExportDaily },
+            ]}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card className="shadow-soft">
+            <CardContent className="p-8 text-center text-destructive">
+              {error.message}
+            </CardContent>
+          </Card>
+        ) : records.length === 0 ? (
+          <Card className="shadow-soft">
+            <CardContent className="p-8 text-center text-muted-foreground">
+              <CalendarDays className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No attendance recorded in this range</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Daily Rate */}
+              <Card className="shadow-medium lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    Daily Attendance Rate
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={rateChartConfig} className="h-64 w-full aspect-auto">
+                    <LineChart data={daily} margin={{ left: -20, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line type="monotone" dataKey="rate" stroke="var(--color-rate)" strokeWidth={2} dot={daily.length < 20} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              {/* Day of Week */}
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <BarChart3 className="w-5 h-5" />
+                    By Day of Week
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={rateChartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={weekdays} margin={{ left: -20, right: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="weekday" tickLine={false} axisLine={false} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Below Threshold */}
+            <Card className="shadow-medium">
+              <CardHeader className="bg-warning-bg/50">
+                <CardTitle className="flex items-center gap-2 text-warning">
+                  <AlertTriangle className="w-5 h-5" />
+                  Below {thresholdValue}% ({belowThreshold.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {belowThreshold.length > 0 ? (
+                  belowThreshold.map(student => (
+                    <Link
+                      key={student.id}
+                      to={`/student/${student.id}`}
+                      className="flex items-center justify-between p-4 border-b border-border last:border-0 hover:bg-muted/30"
+                    >
+                      <span>{student.name}</span>
+                      <Badge variant="outline" className="text-xs text-warning border-warning/30">
+                        {student.rate}% • {student.absences} absent
+                      </Badge>
+                    </Link>
+                  ))
+                ) : (
+                  <p className="p-8 text-center text-sm text-muted-foreground">
+                    Every student is at or above {thresholdValue}%
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Per-Student Table */}
+            <Card className="shadow-medium">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  Absences by Student
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead className="text-right">Absent</TableHead>
+                      <TableHead className="text-right">Excused</TableHead>
+                      <TableHead className="text-right">Late</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map(student => (
+                      <TableRow key={student.id}>
+                        <TableCell>
+                          <Link to={`/student/${student.id}`} className="hover:underline">
+                            {student.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right">{student.absences}</TableCell>
+                        <TableCell className="text-right">{student.excused}</TableCell>
+                        <TableCell className="text-right">{student.lates}</TableCell>
+                        <TableCell className="text-right">{student.total}</TableCell>
+                        <TableCell className={`text-right ${student.rate !== null && student.rate < thresholdValue ? "text-warning font-medium" : ""}`}>
+                          {student.rate !== null ? `${student.rate}%` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AttendanceReports;
@@ -1,74 +1,87 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, CheckCircle, XCircle, Users, Clock, Loader2 } from "lucide-react";
-import { Link, useParams } from "react-router-dom";
-import { useClassById } from "@/hooks/useClasses";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ArrowLeft, CheckCircle, XCircle, Users, Clock, Loader2, CalendarDays, Pencil, Printer } from "lucide-react";
+import EditAttendanceDialog, { EditableAttendanceRecord } from "@/components/EditAttendanceDialog";
+import ExportMenu from "@/components/ExportMenu";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useClassById, useTeacherProfile } from "@/hooks/useClasses";
+import { useAttendanceSessions, useClassAttendanceRange, useSessionDates } from "@/hooks/useAttendance";
+import { ATTENDANCE_STATUSES, AttendanceDetails, describeAttendance, formatArrivalTime, isAttended, parseDateKey, sessionAttendedCount, toDateKey } from "@/lib/attendance";
+import { ExportFormat, ExportStudent, buildDailySheet, downloadBlob, downloadSheets, exportFileName } from "@/lib/export";
+import { buildDailySummaryPdf } from "@/lib/printable";
 import { supabase } from "@/integrations/supabase/client";
 import React, { useEffect, useMemo, useState } from "react";
 
-type StudentRow = { id: string; full_name: string };
+type StudentRow = { id: string; record_id: string; full_name: string; first_seen_at: string | null } & AttendanceDetails;
 
 const AttendanceResults = () => {
-  const { classId } = useParams();
+  const { classId, date } = useParams();
+  const navigate = useNavigate();
   const { data: classData } = useClassById(classId ?? "");
+  const { data: teacher } = useTeacherProfile(classData?.teacher_id ?? "");
+  const [searchParams, setSearchParams] = useSearchParams();
+  // /results/:classId shows today; /results/:classId/:date any past day
+  const dateKey = date ?? toDateKey(new Date());
+  const selectedDate = parseDateKey(dateKey);
+  const { data: sessions, isLoading: sessionsLoading, error: sessionsError } = useAttendanceSessions(classId ?? "", selectedDate ? dateKey : "");
+  const { data: sessionDates } = useSessionDates(classId ?? "");
+  // Every session of the day, for the daily export sheet
+  const { data: dayRecords } = useClassAttendanceRange(classId ?? "", selectedDate ? dateKey : "", selectedDate ? dateKey : "");
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  // The scanner links to the session it just saved; otherwise show the latest one
+  const selectedSession = sessions?.find(s => s.id === searchParams.get('session')) ?? sessions?.[sessions.length - 1];
   const [present, setPresent] = useState<StudentRow[]>([]);
   const [absent, setAbsent] = useState<StudentRow[]>([]);
-  const [dateStr, setDateStr] = useState<string>(new Date().toLocaleDateString());
   const [timeStr, setTimeStr] = useState<string>(new Date().toLocaleTimeString());
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [editingRecord, setEditingRecord] = useState<EditableAttendanceRecord | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
 
   useEffect(() => {
     const load = async () => {
-      if (!classId) return;
+      if (!classId || !selectedSession) {
+        setPresent([]);
+        setAbsent([]);
+        return;
+      }
       
       setIsLoading(true);
       setError(null);
       
       try {
-        const today = new Date().toISOString().slice(0,10);
-        
-        console.log('🔍 Loading attendance for class:', classId, 'date:', today);
-        
-        // Get all enrolled students first
-        const { data: enrollments } = await supabase
-          .from('enrollments')
-          .select('student_id, students ( id, full_name )')
-          .eq('class_id', classId);
-        
-        console.log('📚 Enrolled students:', enrollments);
-        
-        // Get present students
-        const { data: presentRows, error: presentError } = await supabase
-          .from('attendance_records')
-          .select('student_id, students ( id, full_name )')
-          .eq('class_id', classId)
-          .eq('date', today)
-          .eq('status', 'present');
-        
-        console.log('✅ Present students:', presentRows, 'Error:', presentError);
-        
-        // Get absent students
-        const { data: absentRows, error: absentError } = await supabase
+        // Get every record of the session with its status details
+        const { data: recordRows, error: recordsError } = await supabase
           .from('attendance_records')
-          .select('student_id, students ( id, full_name )')
-          .eq('class_id', classId)
-          .eq('date', today)
-          .eq('status', 'absent');
+          .select('id, student_id, status, minutes_late, excuse_code, first_seen_at, students ( id, full_name )')
+          .eq('session_id', selectedSession.id);
         
-        console.log('❌ Absent students:', absentRows, 'Error:', absentError);
+        // A failed load must not look like a session where nobody attended
+        if (recordsError) throw recordsError;
         
         // Process all data before setting state to prevent intermediate renders
-        const presentStudents = (presentRows ?? []).map(r => ({ 
-          id: (r as any).students.id, 
-          full_name: (r as any).students.full_name 
-        }));
-        
-        const absentStudents = (absentRows ?? []).map(r => ({ 
+        const students: StudentRow[] = (recordRows ?? []).map(r => ({ 
           id: (r as any).students.id, 
-          full_name: (r as any).students.full_name 
+          record_id: r.id,
+          full_name: (r as any).students.full_name,
+          status: r.status,
+          minutes_late: r.minutes_late,
+          excuse_code: r.excuse_code as AttendanceDetails['excuse_code'],
+          first_seen_at: r.first_seen_at
         }));
+        // Earliest arrivals first; students marked present by hand have no arrival time
+        const presentStudents = students
+          .filter(student => isAttended(student.status))
+          .sort((a, b) => {
+            if (!a.first_seen_at || !b.first_seen_at) {
+              return a.first_seen_at ? -1 : b.first_seen_at ? 1 : 0;
+            }
+            return new Date(a.first_seen_at).getTime() - new Date(b.first_seen_at).getTime();
+          });
+        const absentStudents = students.filter(student => !isAttended(student.status));
         
         console.log('📊 Final counts - Present:', presentStudents.length, 'Absent:', absentStudents.length);
         console.log('📊 Setting state - Present:', presentStudents, 'Absent:', absentStudents);
@@ -79,31 +92,84 @@ const AttendanceResults = () => {
           setAbsent(absentStudents);
         });
         
-        const now = new Date();
-        setDateStr(now.toLocaleDateString());
-        setTimeStr(now.toLocaleTimeString());
+        setTimeStr(new Date(selectedSession.created_at).toLocaleTimeString());
         
       } catch (err: any) {
         console.error('❌ Error loading attendance:', err);
         setError(err.message || 'Failed to load attendance data');
       } finally {
-        // Add a delay to ensure loading state is visible and data is properly set
-        setTimeout(() => {
-          console.log('🔄 Setting isLoading to false');
-          setIsLoading(false);
-        }, 1000);
+        setIsLoading(false);
       }
     };
     load();
-  }, [classId]);
+  }, [classId, selectedSession, reloadToken]);
+
+  const dateStr = selectedDate?.toLocaleDateString() ?? dateKey;
+  const highlightedDays = useMemo(
+    () => (sessionDates ?? []).map(parseDateKey).filter((day): day is Date => day !== null),
+    [sessionDates]
+  );
+
+  const handleSelectDate = (day: Date | undefined) => {
+    if (!day || !classId) return;
+    setCalendarOpen(false);
+    navigate(`/results/${classId}/${toDateKey(day)}`);
+  };
+
+  const openEditor = (student: StudentRow) => {
+    setEditingRecord({
+      recordId: student.record_id,
+      studentName: student.full_name,
+      details: { status: student.status, minutes_late: student.minutes_late, excuse_code: student.excuse_code }
+    });
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const records = dayRecords ?? [];
+    const students: ExportStudent[] = records.map(r => ({
+      id: r.student_id,
+      studentNumber: r.students?.student_id ?? "",
+      name: r.students?.full_name ?? "Unknown student"
+    }));
+    const exportRecords = records.map(r => ({ ...r, session_name: r.attendance_sessions?.name ?? "" }));
+
+    downloadSheets(
+      [{ name: dateKey, rows: buildDailySheet(exportRecords, students) }],
+      exportFileName([classData?.name ?? "class", "daily", dateKey], format),
+      format
+    );
+  };
+
+  const handlePrintSummary = () => {
+    if (!classData || !selectedSession || !selectedDate) return;
+
+    const blob = buildDailySummaryPdf({
+      header: {
+        className: classData.name,
+        subject: classData.subject,
+        period: classData.period,
+        teacherName: teacher?.full_name ?? null,
+        schoolName: teacher?.school_name
+      },
+      date: selectedDate,
+      sessionName: selectedSession.name,
+      scannedAt: selectedSession.created_at,
+      rows: [...present, ...absent].map(student => ({
+        name: student.full_name,
+        details: { status: student.status, minutes_late: student.minutes_late, excuse_code: student.excuse_code },
+        firstSeenAt: student.first_seen_at
+      }))
+    });
+    downloadBlob(blob, exportFileName([classData.name, "summary", dateKey, selectedSession.name], "pdf"));
+  };
 
   const totalStudents = present.length + absent.length;
   const attendanceRate = totalStudents > 0 ? Math.round((present.length / totalStudents) * 100) : 0;
 
   console.log('🔄 AttendanceResults render - isLoading:', isLoading, 'present:', present.length, 'absent:', absent.length);
 
-  // Loading state - show loading if still loading OR if we have no data yet
-  if (isLoading || (present.length === 0 && absent.length === 0 && !error)) {
+  // Loading state - days without sessions fall through to the empty state below
+  if (sessionsLoading || isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -115,14 +181,18 @@ const AttendanceResults = () => {
     );
   }
 
+  const loadError = !selectedDate
+    ? `"${dateKey}" is not a valid date`
+    : error ?? (sessionsError ? sessionsError.message : null);
+
   // Error state
-  if (error) {
+  if (loadError) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center space-y-4 max-w-md">
           <XCircle className="w-12 h-12 mx-auto text-destructive" />
           <h2 className="text-xl font-semibold">Error Loading Results</h2>
-          <p className="text-muted-foreground">{error}</p>
+          <p className="text-muted-foreground">{loadError}</p>
           <Button asChild>
             <Link to="/">Return to Dashboard</Link>
           </Button>
@@ -144,138 +214,233 @@ const AttendanceResults = () => {
             </Button>
             <div className="flex-1">
               <h1 className="text-xl font-bold text-primary-foreground">
-                Attendance Complete
+                Attendance Record
               </h1>
               <p className="text-sm text-primary-foreground/80">
-                {classData?.name ?? "Class"} • {dateStr}
+                {classData?.name ?? "Class"} • {selectedSession?.name ?? "Session"} • {dateStr}
               </p>
             </div>
-            <Badge variant="secondary" className="text-sm">
-              {attendanceRate}% Present
-            </Badge>
+            {selectedSession && (
+              <Badge variant="secondary" className="text-sm">
+                {attendanceRate}% Present
+              </Badge>
+            )}
           </div>
         </div>
       </header>
 
       {/* Results Summary */}
       <main className="container mx-auto px-4 py-6">
-        {/* Stats Overview */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {/* Date Picker */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <CalendarDays className="w-4 h-4 mr-2" />
+                {dateStr}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={selectedDate ?? undefined}
+                defaultMonth={selectedDate ?? undefined}
+                onSelect={handleSelectDate}
+                disabled={{ after: new Date() }}
+                modifiers={{ hasSession: highlightedDays }}
+                modifiersClassNames={{ hasSession: "font-bold text-primary underline underline-offset-4" }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <span className="text-xs text-muted-foreground">Underlined days have attendance</span>
+        </div>
+
+        {/* Session Picker */}
+        {sessions && sessions.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {sessions.map(session => (
+              <Button
+                key={session.id}
+                variant={session.id === selectedSession?.id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSearchParams({ session: session.id })}
+              >
+                {session.name}
+                <span className="ml-2 text-xs opacity-75">
+                  {sessionAttendedCount(session)}/{session.total_students}
+                </span>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {!selectedSession ? (
           <Card className="shadow-soft">
-            <CardContent className="p-4 text-center">
-              <div className="text-2xl font-bold text-primary">{totalStudents}</div>
-              <div className="text-sm text-muted-foreground">Total</div>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              <CalendarDays className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No attendance was recorded on {dateStr}</p>
+              <p className="text-xs mt-1">Pick an underlined day in the calendar to see a past roster</p>
             </CardContent>
           </Card>
+        ) : (
+          <>
+          {/* Stats Overview */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <Card className="shadow-soft">
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-primary">{totalStudents}</div>
+                <div className="text-sm text-muted-foreground">Total</div>
+              </CardContent>
+            </Card>
           
-          <Card className="shadow-soft">
-            <CardContent className="p-4 text-center">
-              <div className="text-2xl font-bold text-success">{present.length}</div>
-              <div className="text-sm text-muted-foreground">Present</div>
-            </CardContent>
-          </Card>
+            <Card className="shadow-soft">
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-success">{present.length}</div>
+                <div className="text-sm text-muted-foreground">Present</div>
+              </CardContent>
+            </Card>
           
-          <Card className="shadow-soft">
-            <CardContent className="p-4 text-center">
-              <div className="text-2xl font-bold text-warning">{absent.length}</div>
-              <div className="text-sm text-muted-foreground">Absent</div>
-            </CardContent>
-          </Card>
+            <Card className="shadow-soft">
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-warning">{absent.length}</div>
+                <div className="text-sm text-muted-foreground">Absent</div>
+              </CardContent>
+            </Card>
           
-          <Card className="shadow-soft">
-            <CardContent className="p-4 text-center">
-              <div className="text-2xl font-bold text-primary">{attendanceRate}%</div>
-              <div className="text-sm text-muted-foreground">Rate</div>
-            </CardContent>
-          </Card>
-        </div>
+            <Card className="shadow-soft">
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-primary">{attendanceRate}%</div>
+                <div className="text-sm text-muted-foreground">Rate</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Status Breakdown */}
+          {selectedSession && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {ATTENDANCE_STATUSES.map(status => {
+                const count = [...present, ...absent].filter(s => s.status === status.value).length;
+                return count > 0 ? (
+                  <Badge key={status.value} variant="outline" className={status.attended ? "text-success border-success/30" : "text-warning border-warning/30"}>
+                    {status.label}: {count}
+                  </Badge>
+                ) : null;
+              })}
+            </div>
+          )}
 
-        {/* Detailed Lists */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Present Students */}
-          <Card className="shadow-medium">
-            <CardHeader className="bg-success-bg/50">
-              <CardTitle className="flex items-center gap-2 text-success">
-                <CheckCircle className="w-5 h-5" />
-                Present ({present.length})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="p-0">
-              <div className="max-h-96 overflow-y-auto">
-                {present.length > 0 ? (
-                  present.map((s) => (
-                    <div 
-                      key={s.id} 
-                      className="flex items-center gap-3 p-4 border-b border-border last:border-0 hover:bg-muted/30"
-                    >
-                      <div className="w-2 h-2 bg-success rounded-full"></div>
-                      <span className="flex-1">{s.full_name}</span>
-                      <Badge variant="outline" className="text-xs text-success border-success/30">
-                        Present
-                      </Badge>
+          {/* Detailed Lists */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Present Students */}
+            <Card className="shadow-medium">
+              <CardHeader className="bg-success-bg/50">
+                <CardTitle className="flex items-center gap-2 text-success">
+                  <CheckCircle className="w-5 h-5" />
+                  Present ({present.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="max-h-96 overflow-y-auto">
+                  {present.length > 0 ? (
+                    present.map((s) => (
+                      <div 
+                        key={s.id} 
+                        className="flex items-center gap-3 p-4 border-b border-border last:border-0 hover:bg-muted/30"
+                      >
+                        <div className="w-2 h-2 bg-success rounded-full"></div>
+                        <span className="flex-1">{s.full_name}</span>
+                        {s.first_seen_at && (
+                          <span className="text-xs text-muted-foreground">
+                            Arrived {formatArrivalTime(s.first_seen_at)}
+                          </span>
+                        )}
+                        <Badge variant="outline" className="text-xs text-success border-success/30">
+                          {describeAttendance(s)}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => openEditor(s)}
+                          title="Edit attendance"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="p-8 text-center text-muted-foreground">
+                      <CheckCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                      <p className="text-sm">No students marked as present</p>
+                      <p className="text-xs mt-1">Check if attendance was properly scanned</p>
                     </div>
-                  ))
-                ) : (
-                  <div className="p-8 text-center text-muted-foreground">
-                    <CheckCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                    <p className="text-sm">No students marked as present</p>
-                    <p className="text-xs mt-1">Check if attendance was properly scanned</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
 
-          {/* Absent Students */}
-          <Card className="shadow-medium">
-            <CardHeader className="bg-warning-bg/50">
-              <CardTitle className="flex items-center gap-2 text-warning">
-                <XCircle className="w-5 h-5" />
-                Absent ({absent.length})
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="p-0">
-              <div className="max-h-96 overflow-y-auto">
-                {absent.length > 0 ? (
-                  absent.map((s) => (
-                    <div 
-                      key={s.id} 
-                      className="flex items-center gap-3 p-4 border-b border-border last:border-0 hover:bg-muted/30"
-                    >
-                      <div className="w-2 h-2 bg-warning rounded-full"></div>
-                      <span className="flex-1">{s.full_name}</span>
-                      <Badge variant="outline" className="text-xs text-warning border-warning/30">
-                        Absent
-                      </Badge>
+            {/* Absent Students */}
+            <Card className="shadow-medium">
+              <CardHeader className="bg-warning-bg/50">
+                <CardTitle className="flex items-center gap-2 text-warning">
+                  <XCircle className="w-5 h-5" />
+                  Absent ({absent.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="max-h-96 overflow-y-auto">
+                  {absent.length > 0 ? (
+                    absent.map((s) => (
+                      <div 
+                        key={s.id} 
+                        className="flex items-center gap-3 p-4 border-b border-border last:border-0 hover:bg-muted/30"
+                      >
+                        <div className="w-2 h-2 bg-warning rounded-full"></div>
+                        <span className="flex-1">{s.full_name}</span>
+                        <Badge variant="outline" className="text-xs text-warning border-warning/30">
+                          {describeAttendance(s)}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => openEditor(s)}
+                          title="Edit attendance"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="p-8 text-center text-muted-foreground">
+                      <XCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                      <p className="text-sm">No students marked as absent</p>
+                      <p className="text-xs mt-1">All enrolled students are present</p>
                     </div>
-                  ))
-                ) : (
-                  <div className="p-8 text-center text-muted-foreground">
-                    <XCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                    <p className="text-sm">No students marked as absent</p>
-                    <p className="text-xs mt-1">All enrolled students are present</p>
-                  </div>
-                )}
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Session Info */}
+          <Card className="mt-6 shadow-soft">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Scanned at {timeStr}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Users className="w-4 h-4" />
+                  Session: {selectedSession?.name}
+                </div>
               </div>
             </CardContent>
           </Card>
-        </div>
-
-        {/* Session Info */}
-        <Card className="mt-6 shadow-soft">
-          <CardContent className="p-4">
-            <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <div className="flex items-center gap-2">
-                <Clock className="w-4 h-4" />
-                Scanned at {timeStr}
-              </div>
-              <div className="flex items-center gap-2">
-                <Users className="w-4 h-4" />
-                Session: {classId}
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+          </>
+        )}
 
         {/* Actions */}
         <div className="flex flex-col sm:flex-row gap-3 mt-6">
@@ -285,15 +450,39 @@ const AttendanceResults = () => {
             </Link>
           </Button>
           
+          <Button variant="outline" className="flex-1" asChild>
+            <Link to={`/reports/${classId}`}>
+              View Reports
+            </Link>
+          </Button>
+
           <Button variant="outline" className="flex-1">
             Share Results
           </Button>
-          
-          <Button variant="outline" className="flex-1">
-            Export Data
+
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={handlePrintSummary}
+            disabled={!selectedSession || isLoading || totalStudents === 0}
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print Summary
           </Button>
+          
+          <ExportMenu
+            className="flex-1"
+            disabled={!dayRecords || dayRecords.length === 0}
+            options={[{ label: "Daily sheet", onExport: handleExport }]}
+          />
         </div>
       </main>
+
+      <EditAttendanceDialog
+        record={editingRecord}
+        onOpenChange={(open) => !open && setEditingRecord(null)}
+        onSaved={() => setReloadToken(token => token + 1)}
+      />
     </div>
   );
 };
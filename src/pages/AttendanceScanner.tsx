@@ -1,12 +1,22 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { ArrowLeft, Camera, Users, CheckCircle, Settings, Eye, EyeOff, UserPlus, UserMinus, List, FlipHorizontal } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Camera, Users, CheckCircle, Settings, Eye, EyeOff, List, FlipHorizontal, Clock } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
-import { useClassEnrollments } from "@/hooks/useClasses";
-import { base64ToFloat32Simple, detectMultipleFaces, findBestMatch, loadFaceModels, preloadFaceModels, DetectedFace } from "@/lib/face";
+import { useClassById, useClassEnrollments } from "@/hooks/useClasses";
+import { useAttendanceSessions, useAuditedSessionIds } from "@/hooks/useAttendance";
+import { matchFacesToStudents, getFaceDetectorConfig, setFaceDetectorConfig, toKnownFace, DetectedFace, FaceDetectorBackend, FaceDetectorConfig, KnownFace, TINY_INPUT_SIZES } from "@/lib/face";
+import { detectMultipleFacesInWorker, loadFaceModelsInWorker, preloadFaceWorker } from "@/lib/faceWorker";
+import { addVote, tallyVotes, Vote, VoteStatus } from "@/lib/voting";
+import { createFaceTracker, FaceTracker, Track } from "@/lib/tracker";
+import { drawFaceOverlay, OverlayViewport } from "@/lib/overlay";
+import { ATTENDANCE_STATUSES, AttendanceDetails, AttendanceStatus, DEFAULT_SESSION_NAME, EXCUSE_REASONS, ExcuseCode, SESSION_NAME_PRESETS, computeMinutesLate, defaultSessionStartTime, describeAttendance, formatArrivalTime, isAttended, normalizeAttendanceDetails, normalizeSessionName, toDateKey } from "@/lib/attendance";
 import { supabase } from "@/integrations/supabase/client";
 
 interface FaceDetection {
@@ -17,21 +27,67 @@ interface FaceDetection {
   position: { x: number; y: number; width: number; height: number };
   isRecognized: boolean;
   nosePosition?: { x: number; y: number };
+  studentId?: string; // Set once votes confirm who this track is
+  voteStatus?: VoteStatus;
+  firstSeenAt: number; // When this track first appeared, used as the student's arrival time
 }
 
+// Calculate dynamic face bounding box using landmarks and nose center
+const calculateDynamicFaceBox = (originalBox: { x: number; y: number; width: number; height: number }, landmarks?: DetectedFace['landmarks']) => {
+  // Use face width as the primary dimension for dynamic sizing
+  const faceWidth = originalBox.width;
+  const faceHeight = originalBox.height;
+  
+  // Calculate nose position (center of face landmarks if available)
+  let noseX = originalBox.x + faceWidth / 2;
+  let noseY = originalBox.y + faceHeight * 0.4; // Nose is typically at 40% from top
+  
+  // If landmarks are available, use actual nose position
+  if (landmarks && landmarks.nose) {
+    noseX = landmarks.nose.x;
+    noseY = landmarks.nose.y;
+  }
+  
+  // Dynamic box size based on face width
+  const boxWidth = faceWidth * 0.9; // 90% of face width
+  const boxHeight = faceHeight * 0.9; // 90% of face height
+  
+  // Center the box around the nose
+  const boxX = noseX - (boxWidth / 2);
+  const boxY = noseY - (boxHeight * 0.3); // Position nose at 30% from top of box
+  
+  return {
+    x: Math.max(0, boxX),
+    y: Math.max(0, boxY),
+    width: boxWidth,
+    height: boxHeight,
+    noseX: noseX,
+    noseY: noseY
+  };
+};
+
 const AttendanceScanner = () => {
   const { classId } = useParams();
   const [isScanning, setIsScanning] = useState(false);
   const [recognizedCount, setRecognizedCount] = useState(0);
   const { data: enrollments } = useClassEnrollments(classId ?? "");
+  const { data: classData } = useClassById(classId ?? "");
   const totalStudents = enrollments?.length ?? 0;
   const videoRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const [recognizedIds, setRecognizedIds] = useState<Set<string>>(new Set());
+  const [firstSeenAt, setFirstSeenAt] = useState<Record<string, Date>>({});
+  const [matchConfidence, setMatchConfidence] = useState<Record<string, number>>({});
   const [lastRecognition, setLastRecognition] = useState<Date | null>(null);
   const [recognitionStatus, setRecognitionStatus] = useState<'idle' | 'recognizing' | 'success' | 'failed'>('idle');
   const [detectedFaces, setDetectedFaces] = useState<FaceDetection[]>([]);
-  const [trackedFaces, setTrackedFaces] = useState<Map<string, FaceDetection>>(new Map());
-  const [facePositionHistory, setFacePositionHistory] = useState<Map<string, Array<{x: number, y: number, width: number, height: number}>>>(new Map());
+  // Refs rather than state: the detection loop must see the latest tracks without re-rendering
+  const trackedFacesRef = useRef<Map<string, FaceDetection>>(new Map());
+  const voteWindowsRef = useRef<Map<string, Vote[]>>(new Map());
+  const trackerRef = useRef<FaceTracker>(createFaceTracker());
+  // Outlive restarts of the detection loop, so a restart can't fire a second worker request or miss a recognition
+  const detectionInFlightRef = useRef(false);
+  const recognizedIdsRef = useRef<Set<string>>(new Set());
   const [performanceStats, setPerformanceStats] = useState({ detectionTime: 0, recognitionTime: 0, frameRate: 0 });
   const [userHint, setUserHint] = useState<string>('');
   const [isMobile, setIsMobile] = useState(false);
@@ -39,11 +95,19 @@ const AttendanceScanner = () => {
   
   // Manual Override States
   const [showManualMode, setShowManualMode] = useState(false);
-  const [manualAttendance, setManualAttendance] = useState<Record<string, 'present' | 'absent' | 'unset'>>({});
+  const [manualAttendance, setManualAttendance] = useState<Record<string, AttendanceDetails>>({}); // No entry = use the scan result
   const [cameraFallbackMode, setCameraFallbackMode] = useState(false);
   const [currentCameraFacing, setCurrentCameraFacing] = useState<'user' | 'environment'>('environment');
   const [isMirrored, setIsMirrored] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
+  const [detectorConfig, setDetectorConfig] = useState<FaceDetectorConfig>(() => getFaceDetectorConfig());
+  const [ssdFallback, setSsdFallback] = useState(false); // Accurate was picked but its weights aren't served
+  const [sessionName, setSessionName] = useState(DEFAULT_SESSION_NAME);
+  const [sessionStartOverride, setSessionStartOverride] = useState<string | null>(null); // null = default for the session
+  const today = toDateKey(new Date());
+  const { data: todaysSessions } = useAttendanceSessions(classId ?? "", today);
+  const { data: auditedSessionIds } = useAuditedSessionIds(classId ?? "", today);
+  const existingSession = todaysSessions?.find(s => s.name === normalizeSessionName(sessionName));
 
 
   const getCameraErrorMessage = (error: any): string => {
@@ -137,7 +201,7 @@ const AttendanceScanner = () => {
       
       // Load models in background (non-blocking)
       setUserHint('Loading face recognition models...');
-      loadFaceModels().then(() => {
+      loadFaceModelsInWorker(detectorConfig.backend).then(() => {
         setUserHint('Face recognition ready! Point camera at students.');
       }).catch((error) => {
         setUserHint('Camera ready! Basic detection active...');
@@ -168,8 +232,9 @@ const AttendanceScanner = () => {
       }
       // Clear any existing detection state
       setDetectedFaces([]);
-      setTrackedFaces(new Map());
-      setFacePositionHistory(new Map());
+      trackedFacesRef.current = new Map();
+      voteWindowsRef.current = new Map();
+      trackerRef.current.reset();
       setRecognitionStatus('idle');
       setTimeout(() => {
         startScanning();
@@ -188,156 +253,40 @@ const AttendanceScanner = () => {
     setIsMirrored(!isMirrored);
   };
 
-  // Calculate distance between two face positions for matching
-  const calculateFaceDistance = (face1: { x: number; y: number; width: number; height: number }, face2: { x: number; y: number; width: number; height: number }) => {
-    const center1 = { x: face1.x + face1.width / 2, y: face1.y + face1.height / 2 };
-    const center2 = { x: face2.x + face2.width / 2, y: face2.y + face2.height / 2 };
-    return Math.sqrt(Math.pow(center1.x - center2.x, 2) + Math.pow(center1.y - center2.y, 2));
+  // Detector choice is remembered per device
+  const updateDetectorConfig = (changes: Partial<FaceDetectorConfig>) => {
+    const next = { ...detectorConfig, ...changes };
+    setFaceDetectorConfig(next);
+    setDetectorConfig(next);
   };
 
-  // Calculate dynamic face bounding box using landmarks and nose center
-  const calculateDynamicFaceBox = (originalBox: { x: number; y: number; width: number; height: number }, landmarks?: any) => {
-    // Use face width as the primary dimension for dynamic sizing
-    const faceWidth = originalBox.width;
-    const faceHeight = originalBox.height;
-    
-    // Calculate nose position (center of face landmarks if available)
-    let noseX = originalBox.x + faceWidth / 2;
-    let noseY = originalBox.y + faceHeight * 0.4; // Nose is typically at 40% from top
-    
-    // If landmarks are available, use actual nose position
-    if (landmarks && landmarks.nose) {
-      noseX = landmarks.nose.x;
-      noseY = landmarks.nose.y;
-    }
-    
-    // Dynamic box size based on face width
-    const boxWidth = faceWidth * 0.9; // 90% of face width
-    const boxHeight = faceHeight * 0.9; // 90% of face height
-    
-    // Center the box around the nose
-    const boxX = noseX - (boxWidth / 2);
-    const boxY = noseY - (boxHeight * 0.3); // Position nose at 30% from top of box
-    
-    return {
-      x: Math.max(0, boxX),
-      y: Math.max(0, boxY),
-      width: boxWidth,
-      height: boxHeight,
-      noseX: noseX,
-      noseY: noseY
-    };
-  };
-
-  // Smooth face position to prevent jittering
-  const smoothFacePosition = (faceId: string, newPosition: { x: number; y: number; width: number; height: number }) => {
-    const history = facePositionHistory.get(faceId) || [];
-    const maxHistory = 5; // Keep last 5 positions for smoothing
-    
-    // Add new position to history
-    const updatedHistory = [...history, newPosition].slice(-maxHistory);
-    setFacePositionHistory(prev => new Map(prev.set(faceId, updatedHistory)));
-    
-    // Calculate smoothed position
-    if (updatedHistory.length === 1) {
-      return newPosition; // No smoothing for first position
-    }
-    
-    const avgX = updatedHistory.reduce((sum, pos) => sum + pos.x, 0) / updatedHistory.length;
-    const avgY = updatedHistory.reduce((sum, pos) => sum + pos.y, 0) / updatedHistory.length;
-    const avgWidth = updatedHistory.reduce((sum, pos) => sum + pos.width, 0) / updatedHistory.length;
-    const avgHeight = updatedHistory.reduce((sum, pos) => sum + pos.height, 0) / updatedHistory.length;
-    
-    return {
-      x: avgX,
-      y: avgY,
-      width: avgWidth,
-      height: avgHeight
-    };
-  };
-
-  // Match new faces with existing tracked faces
-  const matchFacesWithTracked = (newFaces: DetectedFace[]): FaceDetection[] => {
-    const matchedFaces: FaceDetection[] = [];
-    const usedTrackedIds = new Set<string>();
-    
-    // First, try to match new faces with existing tracked faces
-    newFaces.forEach((newFace, index) => {
-      let bestMatch: { id: string; distance: number } | null = null;
-      
-      // Find the closest tracked face
-      trackedFaces.forEach((trackedFace, trackedId) => {
-        if (usedTrackedIds.has(trackedId)) return;
-        
-        const distance = calculateFaceDistance(newFace.box, trackedFace.position);
-        const maxDistance = Math.min(newFace.box.width, newFace.box.height) * 0.5; // Max 50% of face size
-        
-        if (distance < maxDistance && (!bestMatch || distance < bestMatch.distance)) {
-          bestMatch = { id: trackedId, distance };
-        }
-      });
+  // Attach display positions and recognition state to the tracker's tracks (only reads refs, so it's stable)
+  const toTrackedFaces = useCallback((tracks: Track[]): FaceDetection[] => {
+    return tracks.map(track => {
+      const dynamicBox = calculateDynamicFaceBox(track.box, track.face.landmarks);
+      const previous = trackedFacesRef.current.get(track.id);
       
-      if (bestMatch) {
-        // Update existing tracked face with precise landmark-based positioning
-        const trackedFace = trackedFaces.get(bestMatch.id)!;
-        
-        // Calculate dynamic bounding box using face landmarks and nose center
-        const dynamicBox = calculateDynamicFaceBox(newFace.box, newFace.landmarks);
-        
-        // Apply smoothing to prevent jittering
-        const smoothedPosition = smoothFacePosition(bestMatch.id, {
-          x: dynamicBox.x,
-          y: dynamicBox.y,
-          width: dynamicBox.width,
-          height: dynamicBox.height
-        });
-        
-        const updatedFace: FaceDetection = {
-          ...trackedFace,
-          position: smoothedPosition,
-          nosePosition: {
-            x: dynamicBox.noseX,
-            y: dynamicBox.noseY
-          },
-          confidence: newFace.score
-        };
-        
-        matchedFaces.push(updatedFace);
-        usedTrackedIds.add(bestMatch.id);
-      } else {
-        // Create new tracked face with precise positioning
-        const newId = `face_${Date.now()}_${index}`;
-        
-        // Calculate dynamic bounding box using face landmarks and nose center
-        const dynamicBox = calculateDynamicFaceBox(newFace.box, newFace.landmarks);
-        
-        // Apply smoothing to prevent jittering
-        const smoothedPosition = smoothFacePosition(newId, {
+      return {
+        id: track.id,
+        name: 'Detecting...',
+        accuracy: 0,
+        isRecognized: false,
+        firstSeenAt: Date.now(),
+        ...previous,
+        confidence: track.face.score,
+        position: {
           x: dynamicBox.x,
           y: dynamicBox.y,
           width: dynamicBox.width,
           height: dynamicBox.height
-        });
-        
-        const newTrackedFace: FaceDetection = {
-          id: newId,
-          name: 'Detecting...',
-          confidence: newFace.score,
-          accuracy: 0,
-          position: smoothedPosition,
-          isRecognized: false,
-          nosePosition: {
-            x: dynamicBox.noseX,
-            y: dynamicBox.noseY
-          }
-        };
-        
-        matchedFaces.push(newTrackedFace);
-      }
+        },
+        nosePosition: {
+          x: dynamicBox.noseX,
+          y: dynamicBox.noseY
+        }
+      };
     });
-    
-    return matchedFaces;
-  };
+  }, []);
 
   const stopCamera = () => {
     if (videoRef.current?.srcObject) {
@@ -346,33 +295,55 @@ const AttendanceScanner = () => {
       videoRef.current.srcObject = null;
     }
     setDetectedFaces([]);
-    setTrackedFaces(new Map());
-    setFacePositionHistory(new Map());
+    trackedFacesRef.current = new Map();
+    voteWindowsRef.current = new Map();
+    trackerRef.current.reset();
     setRecognitionStatus('idle');
   };
 
-  const toggleManualAttendance = (studentId: string) => {
+  const setManualStatus = (studentId: string, status: AttendanceStatus | 'unset') => {
     setManualAttendance(prev => {
-      const current = prev[studentId] || 'unset';
-      const next = current === 'unset' ? 'present' : current === 'present' ? 'absent' : 'unset';
-      
-      // Update recognized IDs based on manual changes
-      if (next === 'present' && !recognizedIds.has(studentId)) {
-        setRecognizedIds(prev => new Set([...prev, studentId]));
-        setRecognizedCount(prev => prev + 1);
-      } else if (next !== 'present' && recognizedIds.has(studentId)) {
-        setRecognizedIds(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(studentId);
-          return newSet;
-        });
-        setRecognizedCount(prev => prev - 1);
+      const { [studentId]: current, ...rest } = prev;
+      if (status === 'unset') {
+        return rest;
       }
-      
-      return { ...prev, [studentId]: next };
+      return { ...rest, [studentId]: { ...current, status } };
     });
   };
 
+  const updateManualDetails = (studentId: string, changes: Partial<AttendanceDetails>) => {
+    setManualAttendance(prev => prev[studentId] ? { ...prev, [studentId]: { ...prev[studentId], ...changes } } : prev);
+  };
+
+  const sessionStartTime = sessionStartOverride ?? defaultSessionStartTime(sessionName, classData?.start_time ?? null)?.slice(0, 5) ?? "";
+
+  const changeSessionName = (name: string) => {
+    setSessionName(name);
+    setSessionStartOverride(null);
+  };
+
+  // Recognized students seen after the session start time plus grace period are marked late
+  const resolveAutoAttendance = (studentId: string): AttendanceDetails => {
+    if (!recognizedIds.has(studentId)) {
+      return { status: 'absent' };
+    }
+    const minutesLate = computeMinutesLate(firstSeenAt[studentId] ?? new Date(), sessionStartTime || null, classData?.late_grace_minutes ?? 0);
+    return minutesLate > 0 ? { status: 'late', minutes_late: minutesLate } : { status: 'present' };
+  };
+
+  // Manual override takes precedence over automatic recognition
+  const resolveAttendance = (studentId: string): AttendanceDetails => {
+    return manualAttendance[studentId] ?? resolveAutoAttendance(studentId);
+  };
+
+  const finalAttendedCount = (enrollments ?? []).filter(enrollment => isAttended(resolveAttendance(enrollment.students.id).status)).length;
+  // Only overrides that turn an absence into attendance count as manual; the rest of the total came from the scan
+  const manualAttendedCount = (enrollments ?? []).filter(enrollment => {
+    const override = manualAttendance[enrollment.students.id];
+    return !!override && isAttended(override.status) && !isAttended(resolveAutoAttendance(enrollment.students.id).status);
+  }).length;
+  const autoAttendedCount = finalAttendedCount - manualAttendedCount;
+
   const completeScan = async () => {
     if (!classId) return;
     
@@ -382,131 +353,35 @@ const AttendanceScanner = () => {
     // Stop camera and cleanup
     stopCamera();
     
-    const today = new Date().toISOString().slice(0,10);
-    
-    console.log('🚀 COMPLETE SCAN: Starting attendance completion...');
-    console.log('🚀 COMPLETE SCAN: Class ID:', classId);
-    console.log('🚀 COMPLETE SCAN: Total students:', totalStudents);
-    console.log('🚀 COMPLETE SCAN: Recognized IDs:', Array.from(recognizedIds));
-    console.log('🚀 COMPLETE SCAN: Manual attendance:', manualAttendance);
+    const finalSessionName = normalizeSessionName(sessionName);
     
     // Combine automatic recognition with manual overrides
-    const finalPresentIds = new Set<string>();
-    const finalAbsentIds = new Set<string>();
-    
-    (enrollments ?? []).forEach(enrollment => {
+    const records = (enrollments ?? []).map(enrollment => {
       const studentId = enrollment.students.id;
-      const studentName = enrollment.students.full_name;
-      const manualStatus = manualAttendance[studentId];
-      
-      // Determine final status: manual override takes precedence
-      if (manualStatus === 'present') {
-        finalPresentIds.add(studentId);
-        console.log(`✅ MANUAL PRESENT: ${studentName} (${studentId})`);
-      } else if (manualStatus === 'absent') {
-        finalAbsentIds.add(studentId);
-        console.log(`❌ MANUAL ABSENT: ${studentName} (${studentId})`);
-      } else if (recognizedIds.has(studentId)) {
-        // Auto-recognized as present
-        finalPresentIds.add(studentId);
-        console.log(`✅ AUTO PRESENT: ${studentName} (${studentId})`);
-      } else {
-        // Not recognized and no manual override = absent
-        finalAbsentIds.add(studentId);
-        console.log(`❌ AUTO ABSENT: ${studentName} (${studentId})`);
-      }
+      const details = normalizeAttendanceDetails(resolveAttendance(studentId));
+      return {
+        student_id: studentId,
+        ...details,
+        first_seen_at: firstSeenAt[studentId]?.toISOString() ?? null,
+        match_confidence: matchConfidence[studentId] ?? null
+      };
     });
     
-    const finalPresentCount = finalPresentIds.size;
-    const finalAbsentCount = finalAbsentIds.size;
-    
-    console.log('📊 FINAL COUNTS - Present:', finalPresentCount, 'Absent:', finalAbsentCount);
-    
     try {
-      // First, delete any existing session for today to avoid conflicts
-      console.log('🗑️ Cleaning up existing attendance session for today...');
-      const { error: deleteSessionError } = await supabase
-        .from('attendance_sessions')
-        .delete()
-        .eq('class_id', classId)
-        .eq('date', today);
-      
-      if (deleteSessionError) {
-        console.error('❌ Delete existing session error:', deleteSessionError);
-        throw deleteSessionError;
-      }
-      console.log('✅ Existing session cleaned up');
-      
-      // Insert attendance session
-      const { error: sessionError } = await supabase.from('attendance_sessions').insert({
-      class_id: classId,
-      teacher_id: (await supabase.auth.getUser()).data.user?.id,
-      date: today,
-      total_students: totalStudents,
-      present_count: finalPresentCount,
-      absent_count: finalAbsentCount
-    });
-    
-      if (sessionError) {
-        console.error('❌ Session insert error:', sessionError);
-        throw sessionError;
-      }
-      console.log('✅ Attendance session created');
-      
-      // First, delete any existing records for today to avoid conflicts
-      console.log('🗑️ Cleaning up existing attendance records for today...');
-      const { error: deleteError } = await supabase
-        .from('attendance_records')
-        .delete()
-        .eq('class_id', classId)
-        .eq('date', today);
-      
-      if (deleteError) {
-        console.error('❌ Delete existing records error:', deleteError);
-        throw deleteError;
-      }
-      console.log('✅ Existing records cleaned up');
-      
-      // Insert present records
-    if (finalPresentIds.size > 0) {
-        const presentRecords = Array.from(finalPresentIds).map(student_id => ({ 
-          class_id: classId, 
-          student_id, 
-          date: today, 
-          status: 'present' 
-        }));
-        
-        console.log('📝 Inserting present records:', presentRecords);
-        const { error: presentError } = await supabase.from('attendance_records').insert(presentRecords);
-        
-        if (presentError) {
-          console.error('❌ Present records insert error:', presentError);
-          throw presentError;
-        }
-        console.log('✅ Present records inserted');
-      }
+      // One transactional call: a dropped connection can no longer wipe the day's attendance
+      const { data: session, error: commitError } = await supabase.rpc('commit_attendance', {
+        class_id: classId,
+        date: today,
+        records,
+        session_name: finalSessionName
+      });
       
-      // Insert absent records
-    if (finalAbsentIds.size > 0) {
-        const absentRecords = Array.from(finalAbsentIds).map(student_id => ({ 
-          class_id: classId, 
-          student_id, 
-          date: today, 
-          status: 'absent' 
-        }));
-        
-        console.log('📝 Inserting absent records:', absentRecords);
-        const { error: absentError } = await supabase.from('attendance_records').insert(absentRecords);
-        
-        if (absentError) {
-          console.error('❌ Absent records insert error:', absentError);
-          throw absentError;
-        }
-        console.log('✅ Absent records inserted');
+      if (commitError) {
+        console.error('❌ Attendance commit error:', commitError);
+        throw commitError;
       }
       
-      console.log('🎉 Attendance completion successful! Redirecting to results...');
-    window.location.href = `/results/${classId}`;
+    window.location.href = `/results/${classId}/${today}?session=${session.id}`;
       
     } catch (error: any) {
       console.error('❌ Attendance completion failed:', error);
@@ -515,6 +390,8 @@ const AttendanceScanner = () => {
       
       if (error?.code === '23505') {
         errorMessage = 'Attendance already recorded for today. Please refresh and try again.';
+      } else if (error?.code === '55000') {
+        errorMessage = `"${finalSessionName}" has corrected records and can't be scanned again. Edit those records on the results page, or save this scan under a different session name.`;
       } else if (error?.message) {
         errorMessage = `Error: ${error.message}`;
       }
@@ -535,12 +412,8 @@ const AttendanceScanner = () => {
     const maxErrors = 5;
 
     const known = (enrollments ?? [])
-      .filter(e => !!e.students.facial_id)
-      .map(e => ({ 
-        id: e.students.id, 
-        name: e.students.full_name, 
-        descriptor: base64ToFloat32Simple(e.students.facial_id as string) 
-      }));
+      .map(e => toKnownFace(e.students))
+      .filter((k): k is KnownFace => k !== null);
 
     const loop = async () => {
       // Only run when actively scanning
@@ -562,7 +435,8 @@ const AttendanceScanner = () => {
       // Always continue the loop, but only process when needed
       raf = requestAnimationFrame(loop);
       
-      if (!shouldDetect) {
+      // Skip frames while the worker is still busy with the previous one
+      if (!shouldDetect || detectionInFlightRef.current) {
         return;
       }
       
@@ -593,11 +467,18 @@ const AttendanceScanner = () => {
           paused: video.paused
         });
         
+        detectionInFlightRef.current = true;
         try {
-          detectedFaces = await detectMultipleFaces(video);
+          detectedFaces = await detectMultipleFacesInWorker(video, detectorConfig);
         } catch (error) {
           console.warn('Face detection error, continuing without detection:', error);
           detectedFaces = [];
+        } finally {
+          detectionInFlightRef.current = false;
+        }
+        
+        if (cancelled) {
+          return;
         }
         
         const detectionTime = performance.now() - detectionStart;
@@ -610,29 +491,41 @@ const AttendanceScanner = () => {
         errorCount = 0;
         
         if (detectedFaces.length > 0) {
-          // Filter out very small faces (less than 20px) for speed
+          // Filter out very small faces for speed (tiled scans exist to catch the small ones)
+          const minFaceSize = detectorConfig.tiled ? 12 : 20;
           const validFaces = detectedFaces.filter(face => 
-            face.box.width > 20 && face.box.height > 20
+            face.box.width > minFaceSize && face.box.height > minFaceSize
           );
           
+          // The tracker keeps stable IDs; tracks missing this frame coast so short occlusions keep their identity
+          const tracks = trackerRef.current.update(validFaces);
+          const trackedFaces = toTrackedFaces(tracks);
+          
+          const newTrackedFaces = new Map<string, FaceDetection>();
+          trackedFaces.forEach(face => {
+            newTrackedFaces.set(face.id, face);
+          });
+          trackedFacesRef.current = newTrackedFaces;
+          
           if (validFaces.length === 0) {
             return;
           }
           
-          // Use face tracking to maintain stable face IDs
-          const matchedFaces = matchFacesWithTracked(validFaces);
+          // Only tracks seen in this frame take part in recognition
+          const visibleTracks = tracks.filter(track => track.misses === 0);
+          const matchedFaces = visibleTracks.map(track => newTrackedFaces.get(track.id)!);
           
           // Debug logging
           if (process.env.NODE_ENV === 'development') {
-            console.log(`📊 Tracking: ${matchedFaces.length} tracked faces`);
+            console.log(`📊 Tracking: ${matchedFaces.length} visible of ${tracks.length} tracked faces`);
           }
           
-          // Update tracked faces map
-          const newTrackedFaces = new Map<string, FaceDetection>();
-          matchedFaces.forEach(face => {
-            newTrackedFaces.set(face.id, face);
+          // Forget the votes of tracks that are gone
+          voteWindowsRef.current.forEach((_, trackId) => {
+            if (!newTrackedFaces.has(trackId)) {
+              voteWindowsRef.current.delete(trackId);
+            }
           });
-          setTrackedFaces(newTrackedFaces);
           
           // Don't show bounding boxes until recognition is complete
           // Just show face count feedback
@@ -646,40 +539,51 @@ const AttendanceScanner = () => {
             let hasNewRecognition = false;
             const recognizedFaces: FaceDetection[] = [];
             
-            // Process only new faces for recognition (not every frame)
-            for (let i = 0; i < validFaces.length; i++) {
-              const face = validFaces[i];
+            // Match the whole frame at once so two faces can't claim the same student
+            const assignments = matchFacesToStudents(visibleTracks.map(track => track.face.descriptor), known, { threshold: 0.5 });
+            
+            // Each recognition pass adds one vote per unconfirmed track
+            for (let i = 0; i < matchedFaces.length; i++) {
               const trackedFace = matchedFaces[i];
               
-              // Only recognize if this face hasn't been recognized yet
+              // Only recognize if this face hasn't been confirmed yet
               if (trackedFace && !trackedFace.isRecognized) {
                 console.log('🔍 Attempting recognition for face', i);
-                const match = findBestMatch(face.descriptor, known, 0.5);
-                console.log('🔍 Match result:', match);
+                const { match, candidates, ambiguous } = assignments[i];
+                console.log('🔍 Match result:', match, ambiguous ? '(ambiguous)' : '', candidates);
                 
-                if (match) {
+                const votes = addVote(
+                  voteWindowsRef.current.get(trackedFace.id) ?? [],
+                  match && { id: match.id, name: match.name }
+                );
+                voteWindowsRef.current.set(trackedFace.id, votes);
+                const tally = tallyVotes(votes);
+                trackedFace.voteStatus = tally.status;
+                
+                if (tally.status === 'confirmed' && match && match.id === tally.leader.id) {
                   const accuracy = Math.max(0, Math.min(100, (1 - match.distance) * 100));
-                  const isRecognized = !recognizedIds.has(match.id);
                   
-                  console.log('✅ Recognized:', match.name, 'with accuracy:', accuracy);
+                  console.log('✅ Recognized:', match.name, 'with accuracy:', accuracy, `(${tally.leader.votes} votes)`);
                   
                   // Update the tracked face with recognition results
-                  trackedFace.id = match.id;
+                  trackedFace.studentId = match.id;
                   trackedFace.name = match.name;
                   trackedFace.accuracy = accuracy;
-                  trackedFace.isRecognized = isRecognized;
+                  trackedFace.isRecognized = true;
                   
-                  if (isRecognized) {
+                  if (!recognizedIdsRef.current.has(match.id)) {
                     hasNewRecognition = true;
                   }
-                } else {
+                } else if (tally.status === 'uncertain') {
+                  trackedFace.name = `Uncertain: ${tally.candidates.slice(0, 2).map(c => c.name).join(' / ')}`;
+                  trackedFace.accuracy = 0;
+                } else if (!match) {
                   console.log('❌ No match found for face', i);
                 }
-                // Don't add unrecognized faces to the display
               }
               
-              // Only add recognized faces to the display
-              if (trackedFace && trackedFace.isRecognized) {
+              // Show confirmed faces, and uncertain ones so the teacher can step in
+              if (trackedFace && (trackedFace.isRecognized || trackedFace.voteStatus === 'uncertain')) {
                 recognizedFaces.push(trackedFace);
               }
             }
@@ -697,14 +601,33 @@ const AttendanceScanner = () => {
             
             if (hasNewRecognition) {
               // Add all newly recognized faces at once
-              const newRecognizedIds = new Set(recognizedIds);
+              const newRecognizedIds = new Set(recognizedIdsRef.current);
               recognizedFaces.forEach(face => {
-                if (face.isRecognized && !recognizedIds.has(face.id)) {
-                  newRecognizedIds.add(face.id);
+                if (face.isRecognized && face.studentId) {
+                  newRecognizedIds.add(face.studentId);
                 }
               });
+              recognizedIdsRef.current = newRecognizedIds;
               setRecognizedIds(newRecognizedIds);
               setRecognizedCount(newRecognizedIds.size);
+              setFirstSeenAt(prev => {
+                const next = { ...prev };
+                recognizedFaces.forEach(face => {
+                  if (face.isRecognized && face.studentId && !next[face.studentId]) {
+                    next[face.studentId] = new Date(face.firstSeenAt);
+                  }
+                });
+                return next;
+              });
+              setMatchConfidence(prev => {
+                const next = { ...prev };
+                recognizedFaces.forEach(face => {
+                  if (face.isRecognized && face.studentId && next[face.studentId] === undefined) {
+                    next[face.studentId] = Math.round(face.accuracy * 10) / 10;
+                  }
+                });
+                return next;
+              });
               
               setRecognitionStatus('success');
               setLastRecognition(new Date());
@@ -716,13 +639,15 @@ const AttendanceScanner = () => {
               }, 2000);
             } else {
               setRecognitionStatus('idle');
-              setUserHint(`${recognizedIds.size}/${totalStudents} students recognized`);
+              setUserHint(`${recognizedIdsRef.current.size}/${totalStudents} students recognized`);
             }
           } else {
             setRecognitionStatus('idle');
             setUserHint('No enrolled students to recognize');
           }
         } else {
+          // Let tracks age out while nobody is in view
+          trackerRef.current.update([]);
           setRecognitionStatus('idle');
           setUserHint('No faces detected. Try moving closer or adjusting lighting');
           setDetectedFaces([]);
@@ -765,7 +690,52 @@ const AttendanceScanner = () => {
       // Reset error count on cleanup
       errorCount = 0;
     };
-  }, [enrollments, isScanning, recognizedIds, totalStudents, recognizedCount, lastRecognition]);
+  }, [enrollments, isScanning, totalStudents, detectorConfig, toTrackedFaces]);
+
+  // Redraw the overlay whenever faces change or the video is resized/rotated on screen
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = overlayRef.current;
+    if (!video || !canvas) return;
+
+    const draw = () => {
+      const viewport: OverlayViewport = {
+        videoWidth: video.videoWidth,
+        videoHeight: video.videoHeight,
+        displayWidth: video.clientWidth,
+        displayHeight: video.clientHeight,
+        fit: 'cover', // Matches the video's object-cover
+        mirrored: currentCameraFacing === 'user' || isMirrored,
+        // Always 0 here: getUserMedia delivers frames already turned to match the screen (their width and
+        // height swap when the device rotates) and the <video> element shows them without any CSS rotation,
+        // so the frame the detector saw is exactly what is on screen. Taking screen.orientation.angle would
+        // rotate the overlay a second time. Rotation is only for callers that rotate the displayed frame.
+        rotation: 0,
+        devicePixelRatio: window.devicePixelRatio || 1,
+      };
+      drawFaceOverlay(
+        canvas,
+        detectedFaces.map(face => ({
+          box: face.position,
+          label: face.accuracy > 0 ? `${face.name || 'Unknown'} (${Math.round(face.accuracy)}%)` : (face.name || 'Unknown'),
+          recognized: face.isRecognized,
+          nose: face.nosePosition,
+        })),
+        viewport
+      );
+    };
+
+    draw();
+    const resizeObserver = new ResizeObserver(draw);
+    resizeObserver.observe(video);
+    video.addEventListener('loadedmetadata', draw);
+    window.addEventListener('orientationchange', draw);
+    return () => {
+      resizeObserver.disconnect();
+      video.removeEventListener('loadedmetadata', draw);
+      window.removeEventListener('orientationchange', draw);
+    };
+  }, [detectedFaces, isScanning, isMirrored, currentCameraFacing]);
 
   // Detect mobile and check HTTPS
   useEffect(() => {
@@ -781,9 +751,20 @@ const AttendanceScanner = () => {
     };
     
     checkMobile();
-    preloadFaceModels();
+    preloadFaceWorker();
   }, []);
 
+  // Find out which detector really runs, so a missing SSD model shows up in the settings
+  useEffect(() => {
+    let cancelled = false;
+    loadFaceModelsInWorker(detectorConfig.backend).then((loaded) => {
+      if (!cancelled) setSsdFallback(detectorConfig.backend === 'ssd' && loaded !== 'ssd');
+    }).catch(console.error);
+    return () => {
+      cancelled = true;
+    };
+  }, [detectorConfig.backend]);
+
   // Cleanup effect for component unmount
   useEffect(() => {
     return () => {
@@ -865,6 +846,116 @@ const AttendanceScanner = () => {
                   </div>
                 </div>
 
+                {/* Session */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <Label htmlFor="session-name" className="flex items-center gap-2 text-sm font-medium">
+                    <Clock className="w-4 h-4" />
+                    Session
+                  </Label>
+                  <Input
+                    id="session-name"
+                    value={sessionName}
+                    onChange={(e) => changeSessionName(e.target.value)}
+                    placeholder={DEFAULT_SESSION_NAME}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {SESSION_NAME_PRESETS.map(preset => (
+                      <Button
+                        key={preset}
+                        type="button"
+                        variant={normalizeSessionName(sessionName) === preset ? "default" : "outline"}
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => changeSessionName(preset)}
+                      >
+                        {preset}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="session-start" className="text-xs text-muted-foreground whitespace-nowrap">Late after</Label>
+                    <Input
+                      id="session-start"
+                      type="time"
+                      value={sessionStartTime}
+                      onChange={(e) => setSessionStartOverride(e.target.value)}
+                      className="h-8 w-32"
+                    />
+                    <span className="text-xs text-muted-foreground">
+                      {sessionStartTime ? `+ ${classData?.late_grace_minutes ?? 0} min grace` : "No automatic late marking"}
+                    </span>
+                  </div>
+                  {todaysSessions && todaysSessions.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Taken today: {todaysSessions.map(s => s.name).join(', ')}.
+                      {existingSession && (auditedSessionIds?.has(existingSession.id)
+                        ? ' This session has corrected records, so it can\'t be scanned again. Use a different session name.'
+                        : ' Scanning this session again replaces it.')}
+                    </p>
+                  )}
+                </div>
+
+                {/* Detector Settings */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <Settings className="w-4 h-4" />
+                    Detection Mode (this device)
+                  </div>
+                  <Select
+                    value={detectorConfig.backend}
+                    onValueChange={(value) => updateDetectorConfig({ backend: value as FaceDetectorBackend })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="tiny">Fast (Tiny Face Detector)</SelectItem>
+                      <SelectItem value="ssd">Accurate (SSD MobileNet){ssdFallback ? ' – unavailable' : ''}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {detectorConfig.backend === 'tiny' && (
+                    <Select
+                      value={String(detectorConfig.inputSize)}
+                      onValueChange={(value) => updateDetectorConfig({ inputSize: Number(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TINY_INPUT_SIZES.map(size => (
+                          <SelectItem key={size} value={String(size)}>
+                            {size}px input{size === 224 ? ' (default)' : size > 320 ? ' (finds smaller faces, slower)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {detectorConfig.backend === 'ssd' && ssdFallback ? (
+                    <p className="text-xs text-yellow-600">
+                      Accurate mode is unavailable because its model files couldn't be loaded. Scanning uses Fast instead.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {detectorConfig.backend === 'ssd'
+                        ? 'Better at small, distant faces. Recommended for laptops.'
+                        : 'Fastest option. Larger input sizes find smaller faces at the cost of speed.'}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between pt-2 border-t border-border/50">
+                    <Label htmlFor="tiled-scan" className="text-sm">
+                      Large room mode
+                      <span className="block text-xs text-muted-foreground font-normal">
+                        Scans the frame in overlapping tiles to find back-row faces. Slower.
+                      </span>
+                    </Label>
+                    <Switch
+                      id="tiled-scan"
+                      checked={detectorConfig.tiled}
+                      onCheckedChange={(checked) => updateDetectorConfig({ tiled: checked })}
+                    />
+                  </div>
+                </div>
+
                 {/* Camera Error Display */}
                 {cameraError && (
                   <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
@@ -962,50 +1053,11 @@ const AttendanceScanner = () => {
             </div>
 
 
- {/* Face Detection Boxes - Precise tracking with smoothing */}
-            {detectedFaces.map((face, index) => (
-  <div key={face.id || index}>
-    {/* Face Box - Precise size with smooth tracking */}
-    <div
-      className={`absolute border-2 rounded-lg shadow-lg transition-all duration-300 ${
-        face.isRecognized 
-          ? 'border-green-500 bg-green-500/10' 
-          : 'border-yellow-400 bg-yellow-400/10'
-      }`}
-                style={{
-                  left: `${face.position.x}px`,
-                  top: `${face.position.y}px`,
-                  width: `${face.position.width}px`,
-                  height: `${face.position.height}px`,
-                }}
-              >
-      {/* Nose Center Reference Point */}
-      {face.nosePosition && (
-        <div 
-          className="absolute w-1.5 h-1.5 bg-red-500 rounded-full shadow-sm"
-          style={{
-            left: `${face.nosePosition.x - face.position.x - 3}px`,
-            top: `${face.nosePosition.y - face.position.y - 3}px`,
-          }}
-        />
-      )}
-      
-      {/* Name Label with better positioning */}
-      <div className={`absolute -top-8 left-0 px-2 py-1 rounded text-xs font-medium shadow-sm ${
-        face.isRecognized 
-          ? 'bg-green-500 text-white' 
-          : 'bg-yellow-400 text-black'
-      }`}>
-        {face.name || 'Unknown'}
-        {face.accuracy > 0 && (
-          <span className="ml-1 text-xs opacity-75">
-            ({Math.round(face.accuracy)}%)
-          </span>
-        )}
-      </div>
-                </div>
-              </div>
-            ))}
+            {/* Face overlay - drawn on a canvas in display coordinates */}
+            <canvas
+              ref={overlayRef}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
 
             {/* Error Messages */}
             {cameraError && (
@@ -1040,10 +1092,10 @@ const AttendanceScanner = () => {
                     size="lg" 
                     className="flex-1 bg-green-600/90 border-green-500 text-white hover:bg-green-600 disabled:opacity-50 text-sm py-3"
                     onClick={completeScan}
-                    disabled={recognizedCount === 0 && Object.values(manualAttendance).filter(s => s === 'present').length === 0}
+                    disabled={recognizedCount === 0 && Object.keys(manualAttendance).length === 0}
                   >
                     <CheckCircle className="w-4 h-4 mr-2" />
-                    Complete Scan ({recognizedCount} auto + {Object.values(manualAttendance).filter(s => s === 'present').length} manual)
+                    Complete Scan ({autoAttendedCount} auto + {manualAttendedCount} manual)
                   </Button>
                 </div>
               </div>
@@ -1058,7 +1110,7 @@ const AttendanceScanner = () => {
           <DialogHeader>
             <DialogTitle>Manual Attendance Override</DialogTitle>
             <DialogDescription>
-              Mark students present or absent manually. This overrides automatic detection.
+              Set a student's status manually. This overrides automatic detection.
             </DialogDescription>
           </DialogHeader>
           
@@ -1067,44 +1119,77 @@ const AttendanceScanner = () => {
               const studentId = enrollment.students.id;
               const studentName = enrollment.students.full_name;
               const isAutoRecognized = recognizedIds.has(studentId);
-              const manualStatus = manualAttendance[studentId] || 'unset';
-              const finalStatus = manualStatus !== 'unset' ? manualStatus : (isAutoRecognized ? 'present' : 'absent');
+              const manual = manualAttendance[studentId];
+              const finalStatus = resolveAttendance(studentId).status;
               
               return (
-                <div key={studentId} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
-                  <div className="flex-1">
-                    <div className="font-medium text-sm">{studentName}</div>
-                    <div className="text-xs text-muted-foreground">
-                      {isAutoRecognized && manualStatus === 'unset' && (
-                        <Badge variant="outline" className="text-xs mr-2">Auto Detected</Badge>
-                      )}
-                      {manualStatus !== 'unset' && (
-                        <Badge variant="secondary" className="text-xs mr-2">Manual Override</Badge>
-                      )}
-                      ID: {enrollment.students.student_id}
+                <div key={studentId} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex-1">
+                      <div className="font-medium text-sm">{studentName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {isAutoRecognized && !manual && (
+                          <Badge variant="outline" className="text-xs mr-2">Auto Detected</Badge>
+                        )}
+                        {manual && (
+                          <Badge variant="secondary" className="text-xs mr-2">Manual Override</Badge>
+                        )}
+                        ID: {enrollment.students.student_id}
+                        {firstSeenAt[studentId] && ` • Seen ${formatArrivalTime(firstSeenAt[studentId])}`}
+                      </div>
                     </div>
+                    
+                    <Select
+                      value={manual ? manual.status : 'unset'}
+                      onValueChange={(value) => setManualStatus(studentId, value as AttendanceStatus | 'unset')}
+                    >
+                      <SelectTrigger className={`w-32 h-8 text-xs ${isAttended(finalStatus) ? 'border-green-600 text-green-700' : ''}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unset">
+                          Auto ({describeAttendance(resolveAutoAttendance(studentId))})
+                        </SelectItem>
+                        {ATTENDANCE_STATUSES.map(status => (
+                          <SelectItem key={status.value} value={status.value}>
+                            {status.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                   
-                  <div className="flex items-center gap-2">
-                    <Button
-                      variant={finalStatus === 'present' ? 'default' : 'outline'}
-                      size="sm"
-                      onClick={() => toggleManualAttendance(studentId)}
-                      className={`w-20 ${finalStatus === 'present' ? 'bg-green-600 hover:bg-green-700' : ''}`}
+                  {manual?.status === 'late' && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`late-${studentId}`} className="text-xs text-muted-foreground">Minutes late</Label>
+                      <Input
+                        id={`late-${studentId}`}
+                        type="number"
+                        min={0}
+                        className="h-8 w-20 text-xs"
+                        value={manual.minutes_late ?? ''}
+                        onChange={(e) => updateManualDetails(studentId, { minutes_late: e.target.value === '' ? null : Number(e.target.value) })}
+                      />
+                    </div>
+                  )}
+                  
+                  {manual?.status === 'excused' && (
+                    <Select
+                      value={manual.excuse_code ?? undefined}
+                      onValueChange={(value) => updateManualDetails(studentId, { excuse_code: value as ExcuseCode })}
                     >
-                      {finalStatus === 'present' ? (
-                        <>
-                          <UserPlus className="w-3 h-3 mr-1" />
-                          Present
-                        </>
-                      ) : (
-                        <>
-                          <UserMinus className="w-3 h-3 mr-1" />
-                          {finalStatus === 'absent' ? 'Absent' : 'Unset'}
-                        </>
-                      )}
-                    </Button>
-                  </div>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue placeholder="Reason for absence" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXCUSE_REASONS.map(reason => (
+                          <SelectItem key={reason.value} value={reason.value}>
+                            {reason.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
               );
             })}
@@ -1112,7 +1197,7 @@ const AttendanceScanner = () => {
           
           <div className="flex justify-between items-center pt-4 border-t">
             <div className="text-sm text-muted-foreground">
-              {Object.values(manualAttendance).filter(s => s === 'present').length + recognizedIds.size - Object.keys(manualAttendance).filter(id => manualAttendance[id] === 'absent' && recognizedIds.has(id)).length}/{totalStudents} Present
+              {finalAttendedCount}/{totalStudents} Present
             </div>
             <Button onClick={() => setShowManualMode(false)}>
               Done
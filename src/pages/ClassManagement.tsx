@@ -1,22 +1,24 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Plus, Users, UserPlus, History, Settings, Trash2, RefreshCw } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Plus, Users, UserPlus, History, Settings, Trash2, RefreshCw, Clock, BarChart3, FileUp, ScanFace, Images, MoreVertical, UserMinus, Archive, ArchiveRestore, RotateCcw, Copy } from "lucide-react";
 import { Link, useParams } from "react-router-dom";
-import { useClassById, useClassEnrollments, useDeleteStudent } from "@/hooks/useClasses";
+import { useArchiveClass, useArchiveStudent, useClassById, useClassEnrollments, useInactiveEnrollments, useRestoreEnrollment, useUpdateClass } from "@/hooks/useClasses";
 import { useToast } from "@/hooks/use-toast";
+import RosterImportDialog from "@/components/RosterImportDialog";
+import StudentActionDialog, { StudentAction, StudentActionTarget } from "@/components/StudentActionDialog";
+import DuplicateClassDialog from "@/components/DuplicateClassDialog";
+import DeleteClassDialog from "@/components/DeleteClassDialog";
 import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 // Supabase-backed data
 
@@ -25,7 +27,18 @@ const ClassManagement = () => {
   const [activeTab, setActiveTab] = useState<"roster" | "settings">("roster");
   const { data: classData, refetch: refetchClass, error: classError } = useClassById(classId ?? "");
   const { data: enrollments, refetch: refetchEnrollments, isLoading: enrollmentsLoading, error: enrollmentsError } = useClassEnrollments(classId ?? "");
-  const deleteStudent = useDeleteStudent();
+  const { data: inactiveEnrollments } = useInactiveEnrollments(classId ?? "");
+  const restoreEnrollment = useRestoreEnrollment();
+  const archiveStudent = useArchiveStudent();
+  const archiveClass = useArchiveClass();
+  const updateClass = useUpdateClass();
+  const [classDetails, setClassDetails] = useState({ name: "", subject: "", period: "" });
+  const [duplicateOpen, setDuplicateOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [startTime, setStartTime] = useState("");
+  const [graceMinutes, setGraceMinutes] = useState("5");
+  const [importOpen, setImportOpen] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ action: StudentAction; student: StudentActionTarget } | null>(null);
   const { toast } = useToast();
   
   const activeStudents = useMemo(() => (enrollments ?? []).map(e => ({
@@ -33,15 +46,61 @@ const ClassManagement = () => {
     name: e.students.full_name,
     studentId: e.students.student_id,
     enrolled: e.enrolled_at,
+    hasFace: !!e.students.facial_id || (e.students.face_templates?.length ?? 0) > 0,
     status: "active" as const
   })), [enrollments]);
-  const inactiveStudents: typeof activeStudents = [];
+  const inactiveStudents = useMemo(() => (inactiveEnrollments ?? []).map(e => ({
+    id: e.students.id,
+    name: e.students.full_name,
+    studentId: e.students.student_id,
+    removedAt: e.unenrolled_at,
+    archivedAt: e.students.archived_at
+  })), [inactiveEnrollments]);
+  // Imported students can't be recognized until their face is captured
+  const needsFaceEnrollment = activeStudents.filter(student => !student.hasFace);
+
+  useEffect(() => {
+    if (classData) {
+      setClassDetails({ name: classData.name, subject: classData.subject ?? "", period: classData.period ?? "" });
+      setStartTime(classData.start_time?.slice(0, 5) ?? "");
+      setGraceMinutes(String(classData.late_grace_minutes ?? 5));
+    }
+  }, [classData]);
+
+  const handleSaveDetails = () => {
+    if (!classId || !classDetails.name.trim()) return;
+    updateClass.mutate({
+      classId,
+      changes: {
+        name: classDetails.name.trim(),
+        subject: classDetails.subject.trim(),
+        period: classDetails.period.trim()
+      }
+    });
+  };
+
+  const handleSaveSchedule = () => {
+    if (!classId) return;
+    updateClass.mutate({
+      classId,
+      changes: {
+        start_time: startTime || null,
+        late_grace_minutes: Math.max(0, Number(graceMinutes) || 0)
+      }
+    });
+  };
 
-  const handleDeleteStudent = async (studentId: string, studentName: string) => {
+  // Undo whichever of removal and archiving put the student on the inactive list
+  const handleRestoreStudent = async (student: typeof inactiveStudents[number]) => {
     if (!classId) return;
-    
+
     try {
-      await deleteStudent.mutateAsync({ studentId, classId });
+      if (student.archivedAt) {
+        await archiveStudent.mutateAsync({ studentId: student.id, archived: false });
+      }
+      if (student.removedAt) {
+        await restoreEnrollment.mutateAsync({ studentId: student.id, classId });
+      }
     } catch (error) {
       // Error handling is done in the hook
     }
@@ -75,6 +134,11 @@ const ClassManagement = () => {
                 {classData?.subject ?? ""} {classData?.period ? `• ${classData?.period}` : ""}
               </p>
             </div>
+            {classData?.archived_at && (
+              <Badge variant="outline" className="text-sm text-primary-foreground border-primary-foreground/40">
+                Archived
+              </Badge>
+            )}
             <Badge variant="secondary" className="text-sm">
               {activeStudents.length} Active
             </Badge>
@@ -101,13 +165,19 @@ const ClassManagement = () => {
             <Settings className="w-4 h-4 mr-2" />
             Settings
           </Button>
+          <Button variant="outline" asChild className="flex-1">
+            <Link to={`/reports/${classId}`}>
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Reports
+            </Link>
+          </Button>
         </div>
 
         {/* Tab Content */}
         {activeTab === "roster" && (
           <div className="space-y-6">
             {/* Quick Actions */}
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
               <Button variant="camera" className="h-12" asChild>
                 <Link to={`/enroll/${classId}`}>
                   <UserPlus className="w-5 h-5 mr-2" />
@@ -115,6 +185,11 @@ const ClassManagement = () => {
                 </Link>
               </Button>
               
+              <Button variant="outline" className="h-12" onClick={() => setImportOpen(true)}>
+                <FileUp className="w-5 h-5 mr-2" />
+                Import Roster
+              </Button>
+
               <Button variant="outline" className="h-12" asChild>
                 <Link to={`/scan/${classId}`}>
                   <Users className="w-5 h-5 mr-2" />
@@ -154,6 +229,49 @@ const ClassManagement = () => {
               </Card>
             )}
 
+            {/* Needs Face Enrollment */}
+            {needsFaceEnrollment.length > 0 && (
+              <Card className="shadow-medium">
+                <CardHeader className="bg-warning-bg/50">
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-warning">
+                      <ScanFace className="w-5 h-5" />
+                      Needs Face Enrollment ({needsFaceEnrollment.length})
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/enroll/${classId}/photos`}>
+                        <Images className="w-4 h-4 mr-2" />
+                        Enroll From Photos
+                      </Link>
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <div className="max-h-72 overflow-y-auto">
+                    {needsFaceEnrollment.map(student => (
+                      <div
+                        key={student.id}
+                        className="flex items-center justify-between p-4 border-b border-border last:border-0"
+                      >
+                        <div>
+                          <Link to={`/student/${student.id}`} className="font-medium hover:underline">
+                            {student.name}
+                          </Link>
+                          <div className="text-sm text-muted-foreground">{student.studentId}</div>
+                        </div>
+                        <Button variant="camera" size="sm" asChild>
+                          <Link to={`/enroll/${classId}?student=${student.id}`}>
+                            <ScanFace className="w-4 h-4 mr-2" />
+                            Capture Face
+                          </Link>
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Active Students */}
             <Card className="shadow-medium">
               <CardHeader>
@@ -209,52 +327,49 @@ const ClassManagement = () => {
                           </span>
                         </div>
                         <div>
-                          <div className="font-medium">{student.name}</div>
+                          <Link to={`/student/${student.id}`} className="font-medium hover:underline">
+                            {student.name}
+                          </Link>
                           <div className="text-sm text-muted-foreground">{student.studentId}</div>
                         </div>
                       </div>
                       
                       <div className="flex items-center gap-3">
                         <div className="text-right">
-                          <Badge variant="outline" className="text-xs">
-                            Active
+                          <Badge variant="outline" className={`text-xs ${student.hasFace ? "" : "text-warning border-warning/30"}`}>
+                            {student.hasFace ? "Active" : "No face data"}
                           </Badge>
                           <div className="text-xs text-muted-foreground mt-1">
                             Enrolled {new Date(student.enrolled).toLocaleDateString()}
                           </div>
                         </div>
                         
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                              disabled={deleteStudent.isPending}
-                            >
-                              <Trash2 className="w-4 h-4" />
+                        {/* Non-modal so focus returns cleanly when a confirmation dialog opens from it */}
+                        <DropdownMenu modal={false}>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-muted-foreground">
+                              <MoreVertical className="w-4 h-4" />
                             </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Delete Student</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to delete <strong>{student.name}</strong>? 
-                                This action cannot be undone and will remove all their face data and attendance records.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction
-                                onClick={() => handleDeleteStudent(student.id, student.name)}
-                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                disabled={deleteStudent.isPending}
-                              >
-                                {deleteStudent.isPending ? "Deleting..." : "Delete"}
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onSelect={() => setPendingAction({ action: "remove", student })}>
+                              <UserMinus className="w-4 h-4 mr-2" />
+                              Remove from class
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => setPendingAction({ action: "archive", student })}>
+                              <Archive className="w-4 h-4 mr-2" />
+                              Archive student
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onSelect={() => setPendingAction({ action: "delete", student })}
+                              className="text-destructive focus:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete permanently
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
                     </div>
                     ))
@@ -276,23 +391,49 @@ const ClassManagement = () => {
                   {inactiveStudents.map((student) => (
                     <div 
                       key={student.id} 
-                      className="flex items-center justify-between p-4 border-b border-border last:border-0 opacity-60"
+                      className="flex items-center justify-between p-4 border-b border-border last:border-0"
                     >
-                      <div className="flex items-center gap-3">
+                      <div className="flex items-center gap-3 opacity-60">
                         <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
                           <span className="text-xs font-semibold text-muted-foreground">
                             {student.name.split(' ').map(n => n[0]).join('')}
                           </span>
                         </div>
                         <div>
-                          <div className="font-medium">{student.name}</div>
+                          <Link to={`/student/${student.id}`} className="font-medium hover:underline">
+                            {student.name}
+                          </Link>
                           <div className="text-sm text-muted-foreground">{student.studentId}</div>
                         </div>
                       </div>
                       
-                      <Badge variant="outline" className="text-xs text-muted-foreground">
-                        Inactive
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <div className="text-right">
+                          <Badge variant="outline" className="text-xs text-muted-foreground">
+                            {student.archivedAt ? "Archived" : "Removed"}
+                          </Badge>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {new Date(student.archivedAt ?? student.removedAt ?? "").toLocaleDateString()}
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestoreStudent(student)}
+                          disabled={restoreEnrollment.isPending || archiveStudent.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => setPendingAction({ action: "delete", student })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   ))}
                 </CardContent>
@@ -309,23 +450,76 @@ const ClassManagement = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="text-sm font-medium">Class Name</label>
-                    <div className="mt-1 p-3 bg-muted rounded-md">{classData?.name ?? ""}</div>
+                  <div className="space-y-1">
+                    <Label htmlFor="class-name">Class Name</Label>
+                    <Input
+                      id="class-name"
+                      value={classDetails.name}
+                      onChange={(e) => setClassDetails({ ...classDetails, name: e.target.value })}
+                    />
                   </div>
-                  <div>
-                    <label className="text-sm font-medium">Subject</label>
-                    <div className="mt-1 p-3 bg-muted rounded-md">{classData?.subject ?? ""}</div>
+                  <div className="space-y-1">
+                    <Label htmlFor="class-subject">Subject</Label>
+                    <Input
+                      id="class-subject"
+                      value={classDetails.subject}
+                      onChange={(e) => setClassDetails({ ...classDetails, subject: e.target.value })}
+                    />
                   </div>
-                  <div>
-                    <label className="text-sm font-medium">Period</label>
-                    <div className="mt-1 p-3 bg-muted rounded-md">{classData?.period ?? ""}</div>
+                  <div className="space-y-1">
+                    <Label htmlFor="class-period">Period</Label>
+                    <Input
+                      id="class-period"
+                      value={classDetails.period}
+                      onChange={(e) => setClassDetails({ ...classDetails, period: e.target.value })}
+                    />
                   </div>
                   <div>
                     <label className="text-sm font-medium">Total Enrolled</label>
                     <div className="mt-1 p-3 bg-muted rounded-md">{activeStudents.length} students</div>
                   </div>
                 </div>
+                <Button onClick={handleSaveDetails} disabled={!classDetails.name.trim() || updateClass.isPending}>
+                  {updateClass.isPending ? "Saving..." : "Save Details"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-medium">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  Schedule
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="start-time">Class Start Time</Label>
+                    <Input
+                      id="start-time"
+                      type="time"
+                      value={startTime}
+                      onChange={(e) => setStartTime(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="grace-minutes">Grace Period (minutes)</Label>
+                    <Input
+                      id="grace-minutes"
+                      type="number"
+                      min={0}
+                      value={graceMinutes}
+                      onChange={(e) => setGraceMinutes(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  In the &quot;Start of class&quot; session, students first recognized more than the grace period after the start time are marked late automatically. Later sessions use the start time entered when scanning. Leave the start time empty to turn this off.
+                </p>
+                <Button onClick={handleSaveSchedule} disabled={updateClass.isPending}>
+                  {updateClass.isPending ? "Saving..." : "Save Schedule"}
+                </Button>
               </CardContent>
             </Card>
 
@@ -340,14 +534,74 @@ const ClassManagement = () => {
                 <Button variant="outline" className="w-full justify-start">
                   Reset All Face Data
                 </Button>
-                <Button variant="destructive" className="w-full justify-start">
-                  Archive Class
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setDuplicateOpen(true)}
+                  disabled={!classData}
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicate Class for a New Term
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => classId && archiveClass.mutate({ classId, archived: !classData?.archived_at })}
+                  disabled={!classData || archiveClass.isPending}
+                >
+                  {classData?.archived_at ? (
+                    <>
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                      Unarchive Class
+                    </>
+                  ) : (
+                    <>
+                      <Archive className="w-4 h-4 mr-2" />
+                      Archive Class
+                    </>
+                  )}
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="w-full justify-start"
+                  onClick={() => setDeleteOpen(true)}
+                  disabled={!classData}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Class
                 </Button>
               </CardContent>
             </Card>
           </div>
         )}
       </div>
+
+      <RosterImportDialog
+        classId={classId ?? ""}
+        enrolledStudentNumbers={activeStudents.map(student => student.studentId)}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+      />
+
+      <StudentActionDialog
+        action={pendingAction?.action ?? null}
+        student={pendingAction?.student ?? null}
+        classId={classId ?? ""}
+        className={classData?.name ?? ""}
+        onClose={() => setPendingAction(null)}
+      />
+
+      {classData && (
+        <>
+          <DuplicateClassDialog
+            classData={classData}
+            studentCount={activeStudents.length}
+            open={duplicateOpen}
+            onOpenChange={setDuplicateOpen}
+          />
+          <DeleteClassDialog classData={classData} open={deleteOpen} onOpenChange={setDeleteOpen} />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,343 @@
+import { ChangeEvent, DragEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, FolderOpen, ImagePlus, Loader2, CheckCircle, AlertTriangle, XCircle, Trash2 } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+import { useAttachFaceDescriptors, useClassById, useClassEnrollments } from "@/hooks/useClasses";
+import { detectSingleFaceWithQuality, float32ToBase64Simple, preloadFaceModels } from "@/lib/face";
+import { filesFromDataTransfer, isPhotoFile, loadImageFromUrl, studentIdFromFileName } from "@/lib/photoEnrollment";
+
+type PhotoStatus = "queued" | "processing" | "ready" | "no_face" | "error" | "saved";
+
+interface PhotoItem {
+  id: string;
+  fileName: string;
+  previewUrl: string;
+  studentNumber: string;
+  status: PhotoStatus;
+  descriptor?: string;
+  issues: string[];
+  include: boolean;
+  error?: string;
+}
+
+// Quality messages are worded for the live camera ("... - hold still"); only the problem applies to a photo
+const photoIssue = (issue: string) => issue.split(" - ")[0];
+
+const PhotoEnrollment = () => {
+  const { classId } = useParams();
+  const { data: classData } = useClassById(classId ?? "");
+  const { data: enrollments, isLoading: enrollmentsLoading } = useClassEnrollments(classId ?? "");
+  const attachFaces = useAttachFaceDescriptors();
+  const [photos, setPhotos] = useState<PhotoItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [processTick, setProcessTick] = useState(0);
+  const processingRef = useRef(false);
+  const previewUrlsRef = useRef<string[]>([]);
+
+  // Students in this class keyed by their school ID, case-insensitively
+  const studentsByNumber = useMemo(() => new Map((enrollments ?? []).map(e => [
+    e.students.student_id.toLowerCase(),
+    {
+      id: e.students.id,
+      name: e.students.full_name,
+      hasFace: !!e.students.facial_id || (e.students.face_templates?.length ?? 0) > 0
+    }
+  ])), [enrollments]);
+
+  useEffect(() => {
+    preloadFaceModels();
+    return () => previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const updatePhoto = (id: string, changes: Partial<PhotoItem>) => {
+    setPhotos(current => current.map(photo => (photo.id === id ? { ...photo, ...changes } : photo)));
+  };
+
+  // Detect one photo at a time so large folders don't lock up the page
+  useEffect(() => {
+    const next = photos.find(photo => photo.status === "queued");
+    if (!next || processingRef.current) return;
+
+    processingRef.current = true;
+    updatePhoto(next.id, { status: "processing" });
+    (async () => {
+      try {
+        const image = await loadImageFromUrl(next.previewUrl);
+        const result = await detectSingleFaceWithQuality(image);
+        if (!result) {
+          updatePhoto(next.id, { status: "no_face", include: false });
+        } else {
+          updatePhoto(next.id, {
+            status: "ready",
+            descriptor: float32ToBase64Simple(result.descriptor),
+            issues: result.quality.issues.map(photoIssue),
+            include: result.quality.acceptable
+          });
+        }
+      } catch (error) {
+        console.error('❌ Photo processing failed:', next.fileName, error);
+        updatePhoto(next.id, { status: "error", include: false, error: error instanceof Error ? error.message : "Could not process photo" });
+      } finally {
+        processingRef.current = false;
+        setProcessTick(tick => tick + 1);
+      }
+    })();
+  }, [photos, processTick]);
+
+  const addFiles = (files: File[]) => {
+    const images = files.filter(isPhotoFile);
+    const added = images.map((file, index) => {
+      const previewUrl = URL.createObjectURL(file);
+      previewUrlsRef.current.push(previewUrl);
+      return {
+        id: `${Date.now()}-${index}-${file.name}`,
+        fileName: file.name,
+        previewUrl,
+        studentNumber: studentIdFromFileName(file.name),
+        status: "queued" as const,
+        issues: [],
+        include: false
+      };
+    });
+    setPhotos(current => [...current, ...added].sort((a, b) => a.studentNumber.localeCompare(b.studentNumber)));
+  };
+
+  const handleFileInput = (event: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    event.target.value = "";
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(await filesFromDataTransfer(event.dataTransfer));
+  };
+
+  const removePhoto = (id: string) => {
+    setPhotos(current => current.filter(photo => photo.id !== id));
+  };
+
+  const clearPhotos = () => {
+    previewUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    previewUrlsRef.current = [];
+    setPhotos([]);
+  };
+
+  const matchFor = (photo: PhotoItem) => studentsByNumber.get(photo.studentNumber.toLowerCase());
+  const selected = photos.filter(photo => photo.status === "ready" && photo.include && photo.descriptor && matchFor(photo));
+  const processed = photos.filter(photo => photo.status !== "queued" && photo.status !== "processing").length;
+  const unmatched = photos.filter(photo => !matchFor(photo)).length;
+  const withWarnings = photos.filter(photo => photo.status === "ready" && photo.issues.length > 0).length;
+
+  const handleSave = async () => {
+    const primarySet = new Set<string>();
+    const attachments = selected.map(photo => {
+      const student = matchFor(photo)!;
+      // Only the first photo of a student without face data becomes their primary descriptor
+      const setPrimary = !student.hasFace && !primarySet.has(student.id);
+      primarySet.add(student.id);
+      return { studentId: student.id, descriptor: photo.descriptor!, setPrimary };
+    });
+
+    try {
+      await attachFaces.mutateAsync(attachments);
+      const savedIds = new Set(selected.map(photo => photo.id));
+      setPhotos(current => current.map(photo => (savedIds.has(photo.id) ? { ...photo, status: "saved", include: false } : photo)));
+    } catch (error) {
+      // Error handling is done in the hook
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-gradient-primary shadow-soft">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" asChild className="text-primary-foreground hover:bg-primary-foreground/10">
+              <Link to={`/class/${classId}`}>
+                <ArrowLeft className="w-4 h-4" />
+              </Link>
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-primary-foreground">
+                Enroll From Photos
+              </h1>
+              <p className="text-sm text-primary-foreground/80">
+                {classData?.name ?? "Class"} {classData?.subject ? `• ${classData.subject}` : ""}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Drop Zone */}
+        <Card className="shadow-medium">
+          <CardContent className="p-6">
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${isDragging ? "border-primary bg-primary/5" : "border-border"}`}
+            >
+              <FolderOpen className="w-12 h-12 mx-auto mb-3 text-muted-foreground/60" />
+              <p className="font-medium">Drop a folder of student photos here</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                Name each photo after the student's ID, e.g. <code>S1001.jpg</code>. Photos are processed on this device.
+              </p>
+              <div className="flex flex-wrap justify-center gap-3">
+                <Button variant="outline" asChild>
+                  <label className="cursor-pointer">
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    Choose Photos
+                    <input type="file" accept="image/*" multiple className="hidden" onChange={handleFileInput} />
+                  </label>
+                </Button>
+                <Button variant="outline" asChild>
+                  <label className="cursor-pointer">
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Choose Folder
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      ref={(input) => input?.setAttribute("webkitdirectory", "")}
+                      onChange={handleFileInput}
+                    />
+                  </label>
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {photos.length > 0 && (
+          <>
+            {/* Summary */}
+            <Card className="shadow-medium">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{photos.length} photos</Badge>
+                  <Badge variant="outline" className="text-success border-success/30">{selected.length} selected</Badge>
+                  {withWarnings > 0 && (
+                    <Badge variant="outline" className="text-warning border-warning/30">{withWarnings} quality warnings</Badge>
+                  )}
+                  {unmatched > 0 && (
+                    <Badge variant="outline" className="text-destructive border-destructive/30">{unmatched} not in this class</Badge>
+                  )}
+                  <div className="flex-1" />
+                  <Button variant="ghost" size="sm" onClick={clearPhotos} disabled={attachFaces.isPending}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Clear
+                  </Button>
+                  <Button
+                    variant="success"
+                    onClick={handleSave}
+                    disabled={selected.length === 0 || attachFaces.isPending || enrollmentsLoading}
+                  >
+                    {attachFaces.isPending ? "Saving..." : `Save ${selected.length} Face${selected.length === 1 ? "" : "s"}`}
+                  </Button>
+                </div>
+                {processed < photos.length && (
+                  <div className="space-y-1">
+                    <Progress value={(processed / photos.length) * 100} />
+                    <p className="text-xs text-muted-foreground">Detecting faces: {processed} of {photos.length}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Review Grid */}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {photos.map(photo => {
+                const student = matchFor(photo);
+                const selectable = photo.status === "ready" && !!student;
+                return (
+                  <Card key={photo.id} className={`shadow-soft overflow-hidden ${photo.include && selectable ? "ring-2 ring-primary" : ""}`}>
+                    <div className="relative aspect-square bg-muted">
+                      <img src={photo.previewUrl} alt={photo.fileName} className="w-full h-full object-cover" />
+                      {photo.status === "processing" && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                        </div>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="absolute top-1 right-1 h-7 w-7 p-0 bg-background/80 hover:bg-background"
+                        onClick={() => removePhoto(photo.id)}
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <CardHeader className="p-3 pb-1">
+                      <CardTitle className="text-sm truncate" title={photo.fileName}>
+                        {student ? student.name : photo.studentNumber}
+                      </CardTitle>
+                      <p className={`text-xs ${student ? "text-muted-foreground" : "text-destructive"}`}>
+                        {student ? photo.studentNumber : "No student with this ID in the class"}
+                      </p>
+                    </CardHeader>
+                    <CardContent className="p-3 pt-1 space-y-2">
+                      {photo.status === "queued" && <p className="text-xs text-muted-foreground">Waiting...</p>}
+                      {photo.status === "no_face" && (
+                        <p className="text-xs text-destructive flex items-center gap-1">
+                          <XCircle className="w-3 h-3" /> No face found
+                        </p>
+                      )}
+                      {photo.status === "error" && (
+                        <p className="text-xs text-destructive flex items-center gap-1">
+                          <XCircle className="w-3 h-3" /> {photo.error}
+                        </p>
+                      )}
+                      {photo.status === "saved" && (
+                        <p className="text-xs text-success flex items-center gap-1">
+                          <CheckCircle className="w-3 h-3" /> Saved
+                        </p>
+                      )}
+                      {photo.status === "ready" && (
+                        photo.issues.length > 0 ? (
+                          photo.issues.map(issue => (
+                            <p key={issue} className="text-xs text-warning flex items-center gap-1">
+                              <AlertTriangle className="w-3 h-3 shrink-0" /> {issue}
+                            </p>
+                          ))
+                        ) : (
+                          <p className="text-xs text-success flex items-center gap-1">
+                            <CheckCircle className="w-3 h-3" /> Good quality
+                          </p>
+                        )
+                      )}
+                      {selectable && student.hasFace && (
+                        <p className="text-xs text-muted-foreground">Adds to existing face data</p>
+                      )}
+                      {selectable && (
+                        <label className="flex items-center gap-2 text-xs cursor-pointer">
+                          <Checkbox
+                            checked={photo.include}
+                            onCheckedChange={(checked) => updatePhoto(photo.id, { include: checked === true })}
+                          />
+                          Use this photo
+                        </label>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PhotoEnrollment;
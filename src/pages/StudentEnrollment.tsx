@@ -1,20 +1,37 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ArrowLeft, Camera, User, CheckCircle, RotateCcw } from "lucide-react";
-import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Camera, User, Users, CheckCircle, RotateCcw, AlertTriangle } from "lucide-react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { detectSingleFaceDescriptor, float32ToBase64Simple, loadFaceModels, preloadFaceModels } from "@/lib/face";
-import { useCreateStudent, useEnrollStudent } from "@/hooks/useClasses";
+import { detectSingleFaceWithQuality, float32ToBase64Simple, loadFaceModels, preloadFaceModels, FaceQualityThresholds, FaceTemplateLabel } from "@/lib/face";
+import { useClassEnrollments, useCreateFaceTemplates, useCreateStudent, useEnrollStudent, useRestoreStudentToClass, useStudentByNumber, useStudentProfile, useUpdateStudent, StudentIdMatch, StudentSearchResult } from "@/hooks/useClasses";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import ExistingStudentSearch from "@/components/ExistingStudentSearch";
 
 type EnrollmentStep = "info" | "position" | "capture" | "angles" | "review" | "complete";
 
+type CapturedTemplate = { label: FaceTemplateLabel; descriptor: string };
+
+const TEMPLATE_LABELS: Record<FaceTemplateLabel, string> = {
+  frontal: "Frontal",
+  left: "Left angle",
+  right: "Right angle",
+  alternate: "With/without glasses",
+};
+
+// Angle templates are expected to be turned, so only the pose limit is relaxed
+const ANGLE_QUALITY_THRESHOLDS: Partial<FaceQualityThresholds> = { maxYaw: 50 };
+
 const StudentEnrollment = () => {
   const { classId } = useParams();
+  // ?student=<id> captures a face for a student who is already enrolled, e.g. after a roster import
+  const [searchParams, setSearchParams] = useSearchParams();
+  const existingStudentId = searchParams.get("student") ?? "";
+  const { data: existingStudent } = useStudentProfile(existingStudentId);
   const [currentStep, setCurrentStep] = useState<EnrollmentStep>("info");
   const [studentName, setStudentName] = useState("");
   const [studentId, setStudentId] = useState(() => `STU${Date.now()}`);
@@ -25,17 +42,35 @@ const StudentEnrollment = () => {
   const [enrollmentCompleted, setEnrollmentCompleted] = useState(false);
   const [faceDetected, setFaceDetected] = useState(false);
   const [faceQuality, setFaceQuality] = useState<'good' | 'poor' | 'none'>('none');
+  const [qualityIssues, setQualityIssues] = useState<string[]>([]);
   const [angleCaptureStarted, setAngleCaptureStarted] = useState(false);
   const [angleCaptureProgress, setAngleCaptureProgress] = useState(0);
+  const [angleTemplates, setAngleTemplates] = useState<CapturedTemplate[]>([]);
   const [cameraLoading, setCameraLoading] = useState(false);
   const [stableFaceCount, setStableFaceCount] = useState(0);
   const [autoMoveCountdown, setAutoMoveCountdown] = useState(0);
   const [autoCaptureTriggered, setAutoCaptureTriggered] = useState(false);
+  const [attachingId, setAttachingId] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const { toast } = useToast();
   const { user, session } = useAuth();
   const createStudent = useCreateStudent();
   const enrollStudent = useEnrollStudent();
+  const createFaceTemplates = useCreateFaceTemplates();
+  const updateStudent = useUpdateStudent();
+  const restoreStudent = useRestoreStudentToClass();
+  const { data: enrollments } = useClassEnrollments(classId || "");
+  const enrolledStudentIds = useMemo(() => new Set((enrollments ?? []).map(e => e.student_id)), [enrollments]);
+
+  // student_id is unique across the school, so a typed ID that already exists must be attached rather than re-created
+  const { data: duplicateStudent } = useStudentByNumber(existingStudentId ? "" : studentId);
+
+  useEffect(() => {
+    if (existingStudent) {
+      setStudentName(existingStudent.full_name);
+      setStudentId(existingStudent.student_id);
+    }
+  }, [existingStudent]);
 
   // Preload models when component mounts for better performance
   useEffect(() => {
@@ -55,23 +90,26 @@ const StudentEnrollment = () => {
     if (!videoRef.current || isCapturing) return;
     
     try {
-      const detection = await detectSingleFaceDescriptor(videoRef.current);
+      const result = await detectSingleFaceWithQuality(videoRef.current);
+      const detection = result?.descriptor;
       
       // More strict face detection validation
-      const hasFace = detection && 
+      const hasFace = !!detection && 
                      detection.length > 0 && 
                      detection.length === 128 && // Ensure proper descriptor length
                      !detection.every(val => val === 0); // Ensure not all zeros
+      const isGoodQuality = hasFace && result.quality.acceptable;
       
       // Only update state if it changed to prevent unnecessary re-renders
       setFaceDetected(prev => prev !== hasFace ? hasFace : prev);
       setFaceQuality(prev => {
-        const newQuality = hasFace ? 'good' : 'none';
+        const newQuality = !hasFace ? 'none' : isGoodQuality ? 'good' : 'poor';
         return prev !== newQuality ? newQuality : prev;
       });
+      setQualityIssues(hasFace ? result.quality.issues : []);
       
-      // Auto-move logic for position step
-      if (currentStep === 'position' && hasFace) {
+      // Auto-move logic for position step (only once the framing is good enough to capture)
+      if (currentStep === 'position' && isGoodQuality) {
         setStableFaceCount(prev => {
           const newCount = prev + 1;
           if (newCount >= 3) { // 3 consecutive detections = stable
@@ -92,8 +130,8 @@ const StudentEnrollment = () => {
           }
           return newCount;
         });
-      } else if (currentStep === 'position' && !hasFace) {
-        // Reset count if face is lost
+      } else if (currentStep === 'position' && !isGoodQuality) {
+        // Reset count if face is lost or quality drops
         setStableFaceCount(0);
         setAutoMoveCountdown(0);
       }
@@ -256,10 +294,10 @@ const StudentEnrollment = () => {
       await loadFaceModels();
       setCaptureProgress(40);
       
-      console.log('Calling detectSingleFaceDescriptor...');
-      const descriptor = await detectSingleFaceDescriptor(videoRef.current);
+      console.log('Calling detectSingleFaceWithQuality...');
+      const result = await detectSingleFaceWithQuality(videoRef.current);
       
-      if (!descriptor) {
+      if (!result) {
         console.log('No descriptor returned from detection');
         toast({ title: "No face detected", description: "Please center your face and try again", variant: "destructive" });
         setIsCapturing(false);
@@ -267,6 +305,18 @@ const StudentEnrollment = () => {
         return;
       }
       
+      // Refuse poor reference photos - they are the main cause of misses during scans
+      setQualityIssues(result.quality.issues);
+      if (!result.quality.acceptable) {
+        console.log('Reference capture rejected:', result.quality);
+        toast({ title: "Reference photo rejected", description: result.quality.issues.join('. '), variant: "destructive" });
+        setIsCapturing(false);
+        setCaptureProgress(0);
+        return;
+      }
+      
+      const descriptor = result.descriptor;
+      
       setCaptureProgress(60);
       console.log('Descriptor received, length:', descriptor.length);
       
@@ -323,7 +373,17 @@ const StudentEnrollment = () => {
     }
   };
 
-  // New function for angle capture with proper timing
+  // Detect the current face and return its encoded descriptor, or null if none was found or it failed the quality gate
+  const captureTemplateDescriptor = async (thresholds?: Partial<FaceQualityThresholds>): Promise<string | null> => {
+    if (!videoRef.current) return null;
+    const result = await detectSingleFaceWithQuality(videoRef.current, thresholds);
+    if (!result || result.descriptor.length === 0) return null;
+    setQualityIssues(result.quality.issues);
+    if (!result.quality.acceptable) return null;
+    return float32ToBase64Simple(result.descriptor);
+  };
+
+  // Capture left/right descriptors while the student turns their head
   const captureAngles = async () => {
     if (!videoRef.current || isCapturing || !faceDetected) {
       console.log('🔄 ANGLES: Skipping angles - no face or already capturing');
@@ -342,26 +402,42 @@ const StudentEnrollment = () => {
       setAngleCaptureProgress(20);
       await new Promise(resolve => setTimeout(resolve, 1000));
       
-      // Capture left angle
-      setAngleCaptureProgress(40);
-      toast({ title: "Turn Left", description: "Slowly turn your head to the left" });
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Give time to turn
+      const captured: CapturedTemplate[] = [];
+      const steps: { label: FaceTemplateLabel; title: string; description: string; progress: number }[] = [
+        { label: 'left', title: "Turn Left", description: "Slowly turn your head to the left", progress: 40 },
+        { label: 'right', title: "Turn Right", description: "Slowly turn your head to the right", progress: 70 },
+      ];
       
-      // Capture right angle  
-      setAngleCaptureProgress(70);
-      toast({ title: "Turn Right", description: "Slowly turn your head to the right" });
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Give time to turn
+      for (const step of steps) {
+        setAngleCaptureProgress(step.progress);
+        toast({ title: step.title, description: step.description });
+        await new Promise(resolve => setTimeout(resolve, 2000)); // Give time to turn
+        
+        // A missed angle shouldn't abort the whole sequence
+        const b64 = await captureTemplateDescriptor(ANGLE_QUALITY_THRESHOLDS).catch(() => null);
+        if (b64) {
+          captured.push({ label: step.label, descriptor: b64 });
+          console.log(`✅ ANGLES: Captured ${step.label} template`);
+        } else {
+          console.log(`⚠️ ANGLES: No face found for ${step.label} template`);
+        }
+      }
       
       // Final capture
       setAngleCaptureProgress(90);
       toast({ title: "Center Position", description: "Return to center position" });
       await new Promise(resolve => setTimeout(resolve, 1000));
       
+      setAngleTemplates(prev => [...prev.filter(t => t.label === 'alternate'), ...captured]);
       setAngleCaptureProgress(100);
       setAngleCaptureStarted(false);
       setIsCapturing(false);
       
-      toast({ title: "Angles Captured", description: "Face angles captured successfully" });
+      if (captured.length === steps.length) {
+        toast({ title: "Angles Captured", description: "Face angles captured successfully" });
+      } else {
+        toast({ title: "Some angles missed", description: `Captured ${captured.length} of ${steps.length} angles. Enrollment will continue with the templates we have.` });
+      }
       
       // Auto-move to next step after 2 seconds
       setTimeout(() => {
@@ -381,6 +457,48 @@ const StudentEnrollment = () => {
     }
   };
 
+  // Optional extra frontal template, e.g. with glasses on if the reference was taken without
+  const captureAlternate = async () => {
+    if (isCapturing) return;
+    setIsCapturing(true);
+    try {
+      const b64 = await captureTemplateDescriptor();
+      if (!b64) {
+        toast({ title: "Capture rejected", description: "Please center your face in good light and try again", variant: "destructive" });
+        return;
+      }
+      setAngleTemplates(prev => [...prev.filter(t => t.label !== 'alternate'), { label: 'alternate', descriptor: b64 }]);
+      toast({ title: "Extra template captured", description: "Saved an additional frontal reference" });
+    } catch (e) {
+      toast({ title: "Capture failed", description: e instanceof Error ? e.message : "Unexpected error during face capture", variant: "destructive" });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Link a student who already exists (e.g. from another class) to this class, reusing their face templates
+  const attachExistingStudent = async (student: StudentSearchResult | StudentIdMatch) => {
+    if (!classId || attachingId) return;
+    setAttachingId(student.id);
+    try {
+      if ('archived_at' in student && student.archived_at) {
+        await restoreStudent.mutateAsync({ classId, studentId: student.id });
+      } else if (!enrolledStudentIds.has(student.id)) {
+        await enrollStudent.mutateAsync({ classId, studentId: student.id });
+      }
+      if (student.facial_id || student.face_templates.length > 0) {
+        toast({ title: "Student added", description: `${student.full_name} was added using their existing face data` });
+      } else {
+        // Nothing to recognise them by yet, so go straight to capturing their face
+        setSearchParams({ student: student.id });
+      }
+    } catch (error) {
+      // Error handling is done in the hook
+    } finally {
+      setAttachingId(null);
+    }
+  };
+
   const persistStudentAndEnrollment = useCallback(async () => {
     console.log('🚀 ENROLLMENT: Starting enrollment process...');
     console.log('🚀 ENROLLMENT: classId =', classId);
@@ -429,15 +547,26 @@ const StudentEnrollment = () => {
         throw new Error(`Profile error: ${profileError.message}`);
       }
       
-      console.log('Creating student with data:', { student_id: studentId, full_name: studentName, facial_id: descriptorB64.substring(0, 50) + '...' });
-      const created: any = await createStudent.mutateAsync({ student_id: studentId, full_name: studentName, facial_id: descriptorB64 });
-      console.log('Student created successfully:', created);
-      const newStudentId: string = created?.id;
-      if (!newStudentId) throw new Error("Student creation failed - no ID returned");
+      let newStudentId: string;
+      if (existingStudentId) {
+        console.log('Saving face for existing student:', existingStudentId);
+        await updateStudent.mutateAsync({ studentId: existingStudentId, changes: { facial_id: descriptorB64 } });
+        newStudentId = existingStudentId;
+      } else {
+        console.log('Creating student with data:', { student_id: studentId, full_name: studentName, facial_id: descriptorB64.substring(0, 50) + '...' });
+        const created: any = await createStudent.mutateAsync({ student_id: studentId, full_name: studentName, facial_id: descriptorB64 });
+        console.log('Student created successfully:', created);
+        newStudentId = created?.id;
+        if (!newStudentId) throw new Error("Student creation failed - no ID returned");
+        
+        console.log('Enrolling student in class:', { classId, studentId: newStudentId });
+        const enrollmentResult = await enrollStudent.mutateAsync({ classId, studentId: newStudentId });
+        console.log('Enrollment completed successfully:', enrollmentResult);
+      }
       
-      console.log('Enrolling student in class:', { classId, studentId: newStudentId });
-      const enrollmentResult = await enrollStudent.mutateAsync({ classId, studentId: newStudentId });
-      console.log('Enrollment completed successfully:', enrollmentResult);
+      const templates: CapturedTemplate[] = [{ label: 'frontal', descriptor: descriptorB64 }, ...angleTemplates];
+      console.log('Saving face templates:', templates.map(t => t.label));
+      await createFaceTemplates.mutateAsync({ studentId: newStudentId, templates });
       
       // Wait a moment for cache invalidation to complete
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -472,51 +601,98 @@ const StudentEnrollment = () => {
     } finally {
       setIsSaving(false);
     }
-  }, [classId, createStudent, descriptorB64, enrollStudent, stopCamera, studentId, studentName, toast, user, session]);
+  }, [classId, createStudent, descriptorB64, angleTemplates, enrollStudent, createFaceTemplates, existingStudentId, updateStudent, stopCamera, studentId, studentName, toast, user, session]);
 
   const renderStepContent = () => {
     switch (currentStep) {
       case "info":
         return (
-          <Card className="shadow-medium max-w-md mx-auto">
-            <CardHeader className="text-center">
-              <CardTitle className="flex items-center justify-center gap-2">
-                <User className="w-5 h-5" />
-                Student Information
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Full Name</Label>
-                <Input
-                  id="name"
-                  placeholder="Enter student's full name"
-                  value={studentName}
-                  onChange={(e) => setStudentName(e.target.value)}
-                />
-              </div>
+          <div className="max-w-md mx-auto space-y-4">
+            <Card className="shadow-medium">
+              <CardHeader className="text-center">
+                <CardTitle className="flex items-center justify-center gap-2">
+                  <User className="w-5 h-5" />
+                  Student Information
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Full Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="Enter student's full name"
+                    value={studentName}
+                    onChange={(e) => setStudentName(e.target.value)}
+                    disabled={!!existingStudentId}
+                  />
+                </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="studentId">Student ID</Label>
-                <Input
-                  id="studentId"
-                  placeholder="Enter student ID"
-                  value={studentId}
-                  onChange={(e) => setStudentId(e.target.value)}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="studentId">Student ID</Label>
+                  <Input
+                    id="studentId"
+                    placeholder="Enter student ID"
+                    value={studentId}
+                    onChange={(e) => setStudentId(e.target.value)}
+                    disabled={!!existingStudentId}
+                  />
+                  {duplicateStudent && (
+                    <div className="flex items-start gap-2 p-3 rounded-md bg-warning-bg/50 text-sm text-warning">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <div className="space-y-2">
+                        <p>
+                          {duplicateStudent.student_id} already belongs to {duplicateStudent.full_name}
+                          {duplicateStudent.archived_at ? ", who is archived." : "."}
+                        </p>
+                        {duplicateStudent.archived_at ? (
+                          <Button size="sm" variant="outline" onClick={() => attachExistingStudent(duplicateStudent)} disabled={!!attachingId}>
+                            {attachingId === duplicateStudent.id ? "Restoring..." : `Restore ${duplicateStudent.full_name} and add to this class`}
+                          </Button>
+                        ) : enrolledStudentIds.has(duplicateStudent.id) ? (
+                          <p>They are already in this class.</p>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => attachExistingStudent(duplicateStudent)} disabled={!!attachingId}>
+                            {attachingId === duplicateStudent.id ? "Adding..." : `Add ${duplicateStudent.full_name} to this class`}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <Button 
+                  variant="camera" 
+                  size="lg" 
+                  className="w-full mt-6"
+                  onClick={nextStep}
+                  disabled={!studentName.trim() || !studentId.trim() || !!duplicateStudent}
+                >
+                  Continue to Face Setup
+                </Button>
+              </CardContent>
+            </Card>
 
-              <Button 
-                variant="camera" 
-                size="lg" 
-                className="w-full mt-6"
-                onClick={nextStep}
-                disabled={!studentName.trim() || !studentId.trim()}
-              >
-                Continue to Face Setup
-              </Button>
-            </CardContent>
-          </Card>
+            {!existingStudentId && (
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Users className="w-5 h-5" />
+                    Already Enrolled Elsewhere?
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Add a student from another class. Their existing face data is reused, so no new capture is needed.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <ExistingStudentSearch
+                    enrolledStudentIds={enrolledStudentIds}
+                    attachingId={attachingId}
+                    onAttach={attachExistingStudent}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
         );
 
       case "position":
@@ -606,7 +782,7 @@ const StudentEnrollment = () => {
                         'bg-gray-500/20 text-gray-600'
                       }`}>
                         {faceQuality === 'good' ? '✓ Good Quality' : 
-                         faceQuality === 'poor' ? '⚠️ Poor Quality' : 
+                         faceQuality === 'poor' ? `⚠️ ${qualityIssues[0] ?? 'Poor Quality'}` : 
                          'Quality Unknown'}
                       </div>
                     </div>
@@ -719,6 +895,22 @@ const StudentEnrollment = () => {
                     </div>
                   )}
                 </div>
+
+                {/* Quality gate feedback */}
+                {!isCapturing && !descriptorB64 && qualityIssues.length > 0 && (
+                  <div className="mt-4 space-y-3">
+                    <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 text-sm text-destructive">
+                      <div className="font-medium mb-1">Reference photo not good enough:</div>
+                      {qualityIssues.map(issue => (
+                        <div key={issue}>• {issue}</div>
+                      ))}
+                    </div>
+                    <Button variant="camera" className="w-full" onClick={captureDescriptor}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Retry Capture
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -826,6 +1018,20 @@ const StudentEnrollment = () => {
                     </div>
                   )}
                   
+                  {/* Captured templates and optional glasses capture */}
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{angleTemplates.length + 1} face template(s) captured</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={captureAlternate}
+                      disabled={isCapturing || !faceDetected}
+                    >
+                      <Camera className="w-3 h-3 mr-1" />
+                      {angleTemplates.some(t => t.label === 'alternate') ? 'Retake Glasses Capture' : 'Add With/Without Glasses'}
+                    </Button>
+                  </div>
+                  
                   {/* Debug button state */}
                   <div className="text-xs text-muted-foreground p-2 bg-muted rounded">
                     Button State: descriptorB64={descriptorB64 ? 'Present' : 'Missing'}, 
@@ -864,7 +1070,12 @@ const StudentEnrollment = () => {
                 <div className="space-y-2 text-sm text-muted-foreground">
                   <p>✓ Student information entered</p>
                   <p>✓ Primary face reference captured</p>
-                  <p>✓ Additional face angles captured</p>
+                  {angleTemplates.map(t => (
+                    <p key={t.label}>✓ {TEMPLATE_LABELS[t.label]} captured</p>
+                  ))}
+                  {angleTemplates.length === 0 && (
+                    <p>⚠️ No additional angles captured - recognition works best with several</p>
+                  )}
                   <p>✓ Ready to save to database</p>
                 </div>
 
@@ -911,20 +1122,23 @@ const StudentEnrollment = () => {
 
                 <div className="space-y-2 text-sm text-muted-foreground">
                   <p>✓ Primary reference captured</p>
-                  <p>✓ Multiple angles processed</p>
+                  <p>✓ {angleTemplates.length + 1} face template(s) saved</p>
                   <p>✓ Face signature created</p>
                   <p>✓ Ready for attendance scanning</p>
                 </div>
 
                 <div className="flex gap-3 mt-6">
-                  <Button variant="camera" className="flex-1" onClick={() => {
-                    setStudentName("");
-                    setStudentId("");
-                    setDescriptorB64("");
-                    setCurrentStep("info");
-                  }}>
-                    Enroll Another Student
-                  </Button>
+                  {!existingStudentId && (
+                    <Button variant="camera" className="flex-1" onClick={() => {
+                      setStudentName("");
+                      setStudentId("");
+                      setDescriptorB64("");
+                      setAngleTemplates([]);
+                      setCurrentStep("info");
+                    }}>
+                      Enroll Another Student
+                    </Button>
+                  )}
                   <Button variant="outline" className="flex-1" asChild>
                     <Link to={`/class/${classId}`}>
                       Return to Class
@@ -951,7 +1165,7 @@ const StudentEnrollment = () => {
             </Button>
             <div>
               <h1 className="text-xl font-bold text-primary-foreground">
-                Enroll New Student
+                {existingStudentId ? "Capture Student Face" : "Enroll New Student"}
               </h1>
               <p className="text-sm text-primary-foreground/80">Math 101</p>
             </div>
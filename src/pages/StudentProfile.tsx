@@ -0,0 +1,321 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ArrowLeft, BookOpen, CalendarDays, TrendingUp, ScanFace, Loader2, XCircle } from "lucide-react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { startOfWeek, format } from "date-fns";
+import { useStudentProfile } from "@/hooks/useClasses";
+import { useStudentAttendance } from "@/hooks/useAttendance";
+import { AttendanceStatus, attendanceRate, describeAttendance, formatArrivalTime, parseDateKey, worstStatus } from "@/lib/attendance";
+
+const TEMPLATE_LABEL_NAMES: Record<string, string> = {
+  frontal: "Frontal",
+  left: "Turned left",
+  right: "Turned right",
+  alternate: "Alternate (glasses)",
+};
+
+// Heatmap colours per day, keyed by the day's least favourable status
+const HEATMAP_CLASSES: Record<string, string> = {
+  present: "bg-green-500/80 text-white rounded-md",
+  remote: "bg-green-300 text-green-950 rounded-md",
+  left_early: "bg-yellow-300 text-yellow-950 rounded-md",
+  late: "bg-yellow-400 text-yellow-950 rounded-md",
+  excused: "bg-blue-300 text-blue-950 rounded-md",
+  absent: "bg-red-500/80 text-white rounded-md",
+};
+
+const rateChartConfig = {
+  rate: { label: "Attendance %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const StudentProfile = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: student, isLoading: studentLoading, error: studentError } = useStudentProfile(id ?? "");
+  const { data: records, isLoading: recordsLoading } = useStudentAttendance(id ?? "");
+
+  const overallRate = useMemo(() => attendanceRate((records ?? []).map(r => r.status)), [records]);
+
+  // Group days by their status so the calendar can colour them
+  const heatmapModifiers = useMemo(() => {
+    const byDay = new Map<string, AttendanceStatus[]>();
+    (records ?? []).forEach(record => {
+      byDay.set(record.date, [...(byDay.get(record.date) ?? []), record.status]);
+    });
+
+    const modifiers: Record<string, Date[]> = {};
+    byDay.forEach((statuses, day) => {
+      const date = parseDateKey(day);
+      if (!date) return;
+      const status = worstStatus(statuses);
+      modifiers[status] = [...(modifiers[status] ?? []), date];
+    });
+    return modifiers;
+  }, [records]);
+
+  // Weekly attendance rate, oldest week first
+  const weeklyRates = useMemo(() => {
+    const byWeek = new Map<string, AttendanceStatus[]>();
+    (records ?? []).forEach(record => {
+      const date = parseDateKey(record.date);
+      if (!date) return;
+      const week = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+      byWeek.set(week, [...(byWeek.get(week) ?? []), record.status]);
+    });
+
+    return Array.from(byWeek.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([week, statuses]) => ({
+        week: format(parseDateKey(week)!, "MMM d"),
+        rate: attendanceRate(statuses) ?? 0,
+      }));
+  }, [records]);
+
+  const recentScans = useMemo(
+    () => (records ?? []).filter(r => r.match_confidence !== null).slice(0, 10),
+    [records]
+  );
+
+  const lastRecordDate = records && records.length > 0 ? parseDateKey(records[0].date) : null;
+
+  if (studentLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <Loader2 className="w-12 h-12 animate-spin mx-auto text-primary" />
+          <h2 className="text-xl font-semibold">Loading Student...</h2>
+        </div>
+      </div>
+    );
+  }
+
+  if (studentError || !student) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center space-y-4 max-w-md">
+          <XCircle className="w-12 h-12 mx-auto text-destructive" />
+          <h2 className="text-xl font-semibold">Student Not Found</h2>
+          <p className="text-muted-foreground">
+            {studentError?.message ?? "This student doesn't exist or isn't enrolled in any of your classes."}
+          </p>
+          <Button asChild>
+            <Link to="/">Return to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-gradient-primary shadow-soft">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate(-1)}
+              className="text-primary-foreground hover:bg-primary-foreground/10"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-primary-foreground">
+                {student.full_name}
+              </h1>
+              <p className="text-sm text-primary-foreground/80">
+                ID: {student.student_id}
+              </p>
+            </div>
+            {student.archived_at && (
+              <Badge variant="secondary" className="text-sm">
+                Archived
+              </Badge>
+            )}
+            {overallRate !== null && (
+              <Badge variant="secondary" className="text-sm">
+                {overallRate}% Attendance
+              </Badge>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* Enrollments */}
+        <Card className="shadow-medium">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Classes ({student.enrollments.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {student.enrollments.map(enrollment => {
+              const classRecords = (records ?? []).filter(r => r.class_id === enrollment.class_id);
+              const classRate = attendanceRate(classRecords.map(r => r.status));
+              return (
+                <Link
+                  key={enrollment.id}
+                  to={`/class/${enrollment.class_id}`}
+                  className="flex items-center justify-between p-4 border-b border-border last:border-0 hover:bg-muted/30"
+                >
+                  <div>
+                    <div className="font-medium">{enrollment.classes.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {enrollment.classes.subject} {enrollment.classes.period ? `• ${enrollment.classes.period}` : ""}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    {enrollment.unenrolled_at && (
+                      <Badge variant="outline" className="text-xs text-muted-foreground mr-1">Removed</Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {classRate !== null ? `${classRate}%` : "No records"}
+                    </Badge>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Enrolled {new Date(enrollment.enrolled_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                </Link>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Attendance Heatmap */}
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5" />
+                Attendance Calendar
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center">
+              {recordsLoading ? (
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              ) : (
+                <>
+                  <Calendar
+                    defaultMonth={lastRecordDate ?? undefined}
+                    modifiers={heatmapModifiers}
+                    modifiersClassNames={HEATMAP_CLASSES}
+                  />
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {(["present", "late", "excused", "absent"] as AttendanceStatus[]).map(status => (
+                      <span key={status} className="flex items-center gap-1">
+                        <span className={`inline-block w-3 h-3 ${HEATMAP_CLASSES[status]}`} />
+                        {describeAttendance({ status })}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Rate Over Time */}
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5" />
+                Weekly Attendance Rate
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {weeklyRates.length > 1 ? (
+                <ChartContainer config={rateChartConfig} className="h-64 w-full">
+                  <LineChart data={weeklyRates} margin={{ left: -20, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line type="monotone" dataKey="rate" stroke="var(--color-rate)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Not enough attendance history yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Recent Scans */}
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanFace className="w-5 h-5" />
+                Recent Scans
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {recentScans.length > 0 ? (
+                recentScans.map(record => (
+                  <div key={record.id} className="flex items-center justify-between p-4 border-b border-border last:border-0">
+                    <div>
+                      <div className="text-sm font-medium">
+                        {record.classes?.name ?? "Class"} • {record.attendance_sessions?.name ?? "Session"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {parseDateKey(record.date)?.toLocaleDateString() ?? record.date}
+                        {record.first_seen_at && ` • Arrived ${formatArrivalTime(record.first_seen_at)}`}
+                      </div>
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${record.match_confidence! >= 60 ? "text-success border-success/30" : "text-warning border-warning/30"}`}
+                    >
+                      {Math.round(record.match_confidence!)}% match
+                    </Badge>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground text-center p-8">
+                  No face scans recorded yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Face Templates */}
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ScanFace className="w-5 h-5" />
+                Enrolled Face Templates
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {student.face_templates && student.face_templates.length > 0 ? (
+                student.face_templates.map(template => (
+                  <div key={template.id} className="flex items-center justify-between p-4 border-b border-border last:border-0">
+                    <span className="text-sm font-medium">{TEMPLATE_LABEL_NAMES[template.label] ?? template.label}</span>
+                    <span className="text-xs text-muted-foreground">
+                      Captured {new Date(template.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground text-center p-8">
+                  {student.facial_id ? "Single face capture from an older enrollment" : "No face data enrolled"}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StudentProfile;
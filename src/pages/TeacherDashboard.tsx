@@ -2,11 +2,15 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useClasses, useCreateClass } from '@/hooks/useClasses';
+import { useDashboardStats } from '@/hooks/useDashboard';
+import { parseDateKey } from '@/lib/attendance';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { ChartConfig, ChartContainer } from '@/components/ui/chart';
+import { Line, LineChart, YAxis } from 'recharts';
 import { useToast } from '@/hooks/use-toast';
 import { 
   GraduationCap, 
@@ -16,17 +20,26 @@ import {
   Clock, 
   BookOpen,
   LogOut,
-  Settings
+  Settings,
+  AlertCircle,
+  Archive,
+  BarChart3
 } from 'lucide-react';
 
+const sparklineConfig = {
+  rate: { label: 'Attendance %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
 const TeacherDashboard = () => {
   const { user, loading, signOut } = useAuth();
   const navigate = useNavigate();
   const { data: classes, isLoading: classesLoading } = useClasses();
   const createClassMutation = useCreateClass();
+  const { data: stats } = useDashboardStats();
   const { toast } = useToast();
   
   const [showCreateClass, setShowCreateClass] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [newClass, setNewClass] = useState({
     name: '',
     subject: '',
@@ -81,6 +94,14 @@ const TeacherDashboard = () => {
     return null;
   }
 
+  // Archived classes are listed separately at the bottom and left out of the stats
+  const activeClasses = (classes ?? []).filter(classItem => !classItem.archived_at);
+  const archivedClasses = (classes ?? []).filter(classItem => classItem.archived_at);
+
+  const notScannedToday = stats
+    ? activeClasses.filter(classItem => !stats.scannedTodayClassIds.includes(classItem.id))
+    : [];
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       {/* Header */}
@@ -115,33 +136,59 @@ const TeacherDashboard = () => {
           <Card className="bg-card/50 backdrop-blur-sm">
             <CardContent className="p-4 text-center">
               <BookOpen className="w-6 h-6 text-primary mx-auto mb-2" />
-              <p className="text-2xl font-bold">{classes?.length || 0}</p>
+              <p className="text-2xl font-bold">{activeClasses.length}</p>
               <p className="text-sm text-muted-foreground">Classes</p>
             </CardContent>
           </Card>
           <Card className="bg-card/50 backdrop-blur-sm">
             <CardContent className="p-4 text-center">
               <Users className="w-6 h-6 text-accent mx-auto mb-2" />
-              <p className="text-2xl font-bold">0</p>
+              <p className="text-2xl font-bold">{stats?.totalStudents ?? 0}</p>
               <p className="text-sm text-muted-foreground">Students</p>
             </CardContent>
           </Card>
           <Card className="bg-card/50 backdrop-blur-sm">
             <CardContent className="p-4 text-center">
               <Camera className="w-6 h-6 text-success-soft mx-auto mb-2" />
-              <p className="text-2xl font-bold">0</p>
+              <p className="text-2xl font-bold">{stats?.scansToday ?? 0}</p>
               <p className="text-sm text-muted-foreground">Scans Today</p>
             </CardContent>
           </Card>
           <Card className="bg-card/50 backdrop-blur-sm">
             <CardContent className="p-4 text-center">
               <Clock className="w-6 h-6 text-warning-soft mx-auto mb-2" />
-              <p className="text-2xl font-bold">95%</p>
-              <p className="text-sm text-muted-foreground">Avg Attendance</p>
+              <p className="text-2xl font-bold">{stats?.averageRate != null ? `${stats.averageRate}%` : '—'}</p>
+              <p className="text-sm text-muted-foreground">Avg Attendance (30 days)</p>
             </CardContent>
           </Card>
         </div>
 
+        {/* Classes Not Yet Scanned Today */}
+        {notScannedToday.length > 0 && (
+          <Card className="mb-8 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <AlertCircle className="w-5 h-5 text-warning" />
+                Not Scanned Today ({notScannedToday.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {notScannedToday.map(classItem => (
+                <Button
+                  key={classItem.id}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => navigate(`/scan/${classItem.id}`)}
+                >
+                  <Camera className="w-4 h-4" />
+                  {classItem.name}
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Classes Section */}
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold">Your Classes</h2>
@@ -212,64 +259,123 @@ const TeacherDashboard = () => {
         </div>
 
         {/* Classes Grid */}
-        {classes?.length === 0 ? (
+        {activeClasses.length === 0 ? (
           <Card className="p-8 text-center bg-card/50 backdrop-blur-sm">
             <GraduationCap className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No Classes Yet</h3>
+            <h3 className="text-lg font-semibold mb-2">{archivedClasses.length > 0 ? 'No Active Classes' : 'No Classes Yet'}</h3>
             <p className="text-muted-foreground mb-4">
               Create your first class to start taking attendance
             </p>
             <Button onClick={() => setShowCreateClass(true)} className="gap-2">
               <Plus className="w-4 h-4" />
-              Create First Class
+              {archivedClasses.length > 0 ? 'Create Class' : 'Create First Class'}
             </Button>
           </Card>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {classes?.map((classItem) => (
-              <Card key={classItem.id} className="bg-card/50 backdrop-blur-sm hover:shadow-elegant transition-all">
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <span className="truncate">{classItem.name}</span>
-                    <BookOpen className="w-5 h-5 text-primary flex-shrink-0" />
-                  </CardTitle>
-                  <CardDescription>
-                    {classItem.subject} {classItem.period && `• ${classItem.period}`}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    <div className="flex items-center gap-1">
-                      <Users className="w-4 h-4" />
-                      <span>0 students</span>
+            {activeClasses.map((classItem) => {
+              const classStats = stats?.classStats[classItem.id];
+              return (
+                <Card key={classItem.id} className="bg-card/50 backdrop-blur-sm hover:shadow-elegant transition-all">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span className="truncate">{classItem.name}</span>
+                      <BookOpen className="w-5 h-5 text-primary flex-shrink-0" />
+                    </CardTitle>
+                    <CardDescription>
+                      {classItem.subject} {classItem.period && `• ${classItem.period}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Users className="w-4 h-4" />
+                        <span>{classStats?.studentCount ?? 0} students</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Clock className="w-4 h-4" />
+                        <span>
+                          {classStats?.lastScanDate
+                            ? `Last scan ${parseDateKey(classStats.lastScanDate)?.toLocaleDateString()}`
+                            : 'No recent scans'}
+                        </span>
+                      </div>
+                      {classStats && classStats.trend.length > 1 && (
+                        <ChartContainer config={sparklineConfig} className="ml-auto h-8 w-20 aspect-auto">
+                          <LineChart data={classStats.trend}>
+                            <YAxis hide domain={[0, 100]} />
+                            <Line type="monotone" dataKey="rate" stroke="var(--color-rate)" strokeWidth={2} dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ChartContainer>
+                      )}
                     </div>
-                    <div className="flex items-center gap-1">
-                      <Clock className="w-4 h-4" />
-                      <span>No scans</span>
+                    <div className="flex gap-2">
+                      <Button 
+                        onClick={() => navigate(`/scan/${classItem.id}`)}
+                        className="flex-1 gap-2"
+                        size="sm"
+                      >
+                        <Camera className="w-4 h-4" />
+                        Take Attendance
+                      </Button>
+                      <Button 
+                        onClick={() => navigate(`/class/${classItem.id}`)}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Settings className="w-4 h-4" />
+                        Manage
+                      </Button>
                     </div>
-                  </div>
-                  <div className="flex gap-2">
-                    <Button 
-                      onClick={() => navigate(`/scan/${classItem.id}`)}
-                      className="flex-1 gap-2"
-                      size="sm"
-                    >
-                      <Camera className="w-4 h-4" />
-                      Take Attendance
-                    </Button>
-                    <Button 
-                      onClick={() => navigate(`/class/${classItem.id}`)}
-                      variant="outline"
-                      size="sm"
-                      className="gap-2"
-                    >
-                      <Settings className="w-4 h-4" />
-                      Manage
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Archived Classes */}
+        {archivedClasses.length > 0 && (
+          <div className="mt-8">
+            <Button variant="ghost" className="gap-2 text-muted-foreground mb-4" onClick={() => setShowArchived(!showArchived)}>
+              <Archive className="w-4 h-4" />
+              {showArchived ? 'Hide' : 'Show'} Archived Classes ({archivedClasses.length})
+            </Button>
+            {showArchived && (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {archivedClasses.map(classItem => (
+                  <Card key={classItem.id} className="bg-card/30">
+                    <CardHeader>
+                      <CardTitle className="truncate text-muted-foreground">{classItem.name}</CardTitle>
+                      <CardDescription>
+                        {classItem.subject} {classItem.period && `• ${classItem.period}`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex gap-2">
+                      <Button
+                        onClick={() => navigate(`/reports/${classItem.id}`)}
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 gap-2"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        Reports
+                      </Button>
+                      <Button
+                        onClick={() => navigate(`/class/${classItem.id}`)}
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Settings className="w-4 h-4" />
+                        Manage
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </main>
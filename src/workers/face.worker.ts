@@ -0,0 +1,71 @@
+import * as faceapi from 'face-api.js';
+import { detectFacesTiled, loadFaceModels, multiFaceDetectorOptions, toDetectedFaces, FaceDetectorConfig } from '@/lib/face';
+import type { FaceWorkerRequest, FaceWorkerResponse } from '@/lib/faceWorker';
+
+// face-api.js only knows browser and Node environments; point it at OffscreenCanvas instead of the DOM
+faceapi.env.setEnv({
+	Canvas: OffscreenCanvas,
+	CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+	Image: ImageBitmap,
+	ImageData: ImageData,
+	Video: ImageBitmap,
+	createCanvasElement: () => new OffscreenCanvas(1, 1),
+	createImageElement: () => {
+		throw new Error('createImageElement - not available in a worker');
+	},
+	fetch: (url: string, init?: RequestInit) => fetch(url, init),
+	readFile: () => {
+		throw new Error('readFile - filesystem not available in a worker');
+	},
+} as unknown as faceapi.Environment);
+
+const ctx = self as unknown as {
+	onmessage: ((event: MessageEvent<FaceWorkerRequest>) => void) | null;
+	postMessage: (message: FaceWorkerResponse) => void;
+};
+
+let canvas: OffscreenCanvas | null = null;
+
+async function detect(frame: ImageBitmap, config: FaceDetectorConfig) {
+	if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+		canvas = new OffscreenCanvas(frame.width, frame.height);
+	}
+	canvas.getContext('2d')?.drawImage(frame, 0, 0);
+	frame.close();
+
+	if (config.tiled) {
+		return detectFacesTiled(canvas as unknown as HTMLCanvasElement, canvas.width, canvas.height, config);
+	}
+
+	const detections = await faceapi
+		.detectAllFaces(canvas as unknown as HTMLCanvasElement, multiFaceDetectorOptions(config))
+		.withFaceLandmarks()
+		.withFaceDescriptors();
+
+	return toDetectedFaces(detections);
+}
+
+ctx.onmessage = async (event) => {
+	const request = event.data;
+
+	try {
+		switch (request.type) {
+			case 'load': {
+				const loaded = await loadFaceModels(request.backend);
+				ctx.postMessage({ type: 'loaded', backend: request.backend, loaded });
+				break;
+			}
+			case 'detect': {
+				await loadFaceModels(request.config.backend);
+				const faces = await detect(request.frame, request.config);
+				ctx.postMessage({ type: 'detected', id: request.id, faces });
+				break;
+			}
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Face worker error';
+		ctx.postMessage(request.type === 'detect'
+			? { type: 'error', id: request.id, message }
+			: { type: 'error', backend: request.backend, message });
+	}
+};
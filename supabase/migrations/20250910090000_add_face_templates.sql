@@ -0,0 +1,43 @@
+-- Store several face descriptors per student (frontal, left, right, with/without glasses)
+-- so recognition can match whichever angle the student is seen from.
+-- students.facial_id keeps the primary frontal descriptor for older clients.
+
+CREATE TABLE public.face_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (label IN ('frontal', 'left', 'right', 'alternate')),
+  descriptor TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX face_templates_student_id_idx ON public.face_templates(student_id);
+
+ALTER TABLE public.face_templates ENABLE ROW LEVEL SECURITY;
+
+-- Same access rules as the students table
+CREATE POLICY "Teachers can view face templates" ON public.face_templates
+  FOR SELECT USING (
+    auth.uid() IS NOT NULL AND 
+    EXISTS (
+      SELECT 1 FROM public.profiles 
+      WHERE id = auth.uid() AND role IN ('teacher', 'admin')
+    )
+  );
+
+CREATE POLICY "Teachers can create face templates" ON public.face_templates
+  FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL AND 
+    EXISTS (
+      SELECT 1 FROM public.profiles 
+      WHERE id = auth.uid() AND role IN ('teacher', 'admin')
+    )
+  );
+
+CREATE POLICY "Teachers can delete face templates" ON public.face_templates
+  FOR DELETE USING (
+    auth.uid() IS NOT NULL AND 
+    EXISTS (
+      SELECT 1 FROM public.profiles 
+      WHERE id = auth.uid() AND role IN ('teacher', 'admin')
+    )
+  );
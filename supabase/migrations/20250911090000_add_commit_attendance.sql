@@ -0,0 +1,59 @@
+-- Save a class's attendance for a day in one transaction.
+-- Replaces the client-side delete/insert sequence, which could leave a class with no
+-- attendance at all if the connection dropped halfway through.
+-- records: [{ "student_id": "<uuid>", "status": "present" | "absent" }, ...]
+
+CREATE OR REPLACE FUNCTION public.commit_attendance(class_id UUID, date DATE, records JSONB)
+RETURNS public.attendance_sessions AS $$
+DECLARE
+  saved_session public.attendance_sessions;
+BEGIN
+  IF NOT public.user_owns_class(commit_attendance.class_id) THEN
+    RAISE EXCEPTION 'You can only record attendance for your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(commit_attendance.records) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'records must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Only students enrolled in the class can be recorded
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(commit_attendance.records) AS r
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.class_id = commit_attendance.class_id
+        AND e.student_id = (r ->> 'student_id')::UUID
+    )
+  ) THEN
+    RAISE EXCEPTION 'records contain students who are not enrolled in this class'
+      USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.attendance_records ar
+  WHERE ar.class_id = commit_attendance.class_id AND ar.date = commit_attendance.date;
+
+  DELETE FROM public.attendance_sessions s
+  WHERE s.class_id = commit_attendance.class_id AND s.date = commit_attendance.date;
+
+  INSERT INTO public.attendance_records (class_id, student_id, date, status)
+  SELECT commit_attendance.class_id, (r ->> 'student_id')::UUID, commit_attendance.date, r ->> 'status'
+  FROM jsonb_array_elements(commit_attendance.records) AS r;
+
+  INSERT INTO public.attendance_sessions (class_id, teacher_id, date, total_students, present_count, absent_count)
+  SELECT
+    commit_attendance.class_id,
+    auth.uid(),
+    commit_attendance.date,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'present'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'absent')
+  FROM jsonb_array_elements(commit_attendance.records) AS r
+  RETURNING * INTO saved_session;
+
+  RETURN saved_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.commit_attendance(UUID, DATE, JSONB) TO authenticated;
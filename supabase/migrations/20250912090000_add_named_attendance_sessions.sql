@@ -0,0 +1,111 @@
+-- Allow several named attendance sessions per class per day (e.g. "Start of class" and
+-- "After break"). Records now belong to a session instead of being unique per date.
+
+ALTER TABLE public.attendance_sessions
+  ADD COLUMN name TEXT NOT NULL DEFAULT 'Start of class';
+
+-- Older clients could leave duplicate sessions for a day; keep the latest one
+DELETE FROM public.attendance_sessions s
+USING public.attendance_sessions newer
+WHERE s.class_id = newer.class_id
+  AND s.date = newer.date
+  AND (s.created_at, s.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.attendance_sessions
+  ADD CONSTRAINT attendance_sessions_class_id_date_name_key UNIQUE (class_id, date, name);
+
+-- Records saved without a session get one owned by the class's teacher
+INSERT INTO public.attendance_sessions (class_id, teacher_id, date, total_students, present_count, absent_count)
+SELECT
+  ar.class_id,
+  c.teacher_id,
+  ar.date,
+  COUNT(*),
+  COUNT(*) FILTER (WHERE ar.status = 'present'),
+  COUNT(*) FILTER (WHERE ar.status = 'absent')
+FROM public.attendance_records ar
+JOIN public.classes c ON c.id = ar.class_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.attendance_sessions s
+  WHERE s.class_id = ar.class_id AND s.date = ar.date
+)
+GROUP BY ar.class_id, c.teacher_id, ar.date;
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN session_id UUID REFERENCES public.attendance_sessions(id) ON DELETE CASCADE;
+
+UPDATE public.attendance_records ar
+SET session_id = s.id
+FROM public.attendance_sessions s
+WHERE s.class_id = ar.class_id AND s.date = ar.date;
+
+ALTER TABLE public.attendance_records
+  ALTER COLUMN session_id SET NOT NULL,
+  DROP CONSTRAINT attendance_records_class_id_student_id_date_key,
+  ADD CONSTRAINT attendance_records_session_id_student_id_key UNIQUE (session_id, student_id);
+
+CREATE INDEX attendance_records_class_id_date_idx ON public.attendance_records(class_id, date);
+
+-- commit_attendance now replaces a single named session instead of the whole day
+DROP FUNCTION public.commit_attendance(UUID, DATE, JSONB);
+
+CREATE OR REPLACE FUNCTION public.commit_attendance(class_id UUID, date DATE, records JSONB, session_name TEXT DEFAULT 'Start of class')
+RETURNS public.attendance_sessions AS $$
+DECLARE
+  saved_session public.attendance_sessions;
+BEGIN
+  IF NOT public.user_owns_class(commit_attendance.class_id) THEN
+    RAISE EXCEPTION 'You can only record attendance for your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(commit_attendance.records) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'records must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(btrim(commit_attendance.session_name), '') = '' THEN
+    RAISE EXCEPTION 'session_name must not be empty'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Only students enrolled in the class can be recorded
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(commit_attendance.records) AS r
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.class_id = commit_attendance.class_id
+        AND e.student_id = (r ->> 'student_id')::UUID
+    )
+  ) THEN
+    RAISE EXCEPTION 'records contain students who are not enrolled in this class'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Re-scanning a session replaces it; its records go with it through ON DELETE CASCADE
+  DELETE FROM public.attendance_sessions s
+  WHERE s.class_id = commit_attendance.class_id
+    AND s.date = commit_attendance.date
+    AND s.name = btrim(commit_attendance.session_name);
+
+  INSERT INTO public.attendance_sessions (class_id, teacher_id, date, name, total_students, present_count, absent_count)
+  SELECT
+    commit_attendance.class_id,
+    auth.uid(),
+    commit_attendance.date,
+    btrim(commit_attendance.session_name),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'present'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'absent')
+  FROM jsonb_array_elements(commit_attendance.records) AS r
+  RETURNING * INTO saved_session;
+
+  INSERT INTO public.attendance_records (class_id, student_id, date, session_id, status)
+  SELECT commit_attendance.class_id, (r ->> 'student_id')::UUID, commit_attendance.date, saved_session.id, r ->> 'status'
+  FROM jsonb_array_elements(commit_attendance.records) AS r;
+
+  RETURN saved_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.commit_attendance(UUID, DATE, JSONB, TEXT) TO authenticated;
@@ -0,0 +1,112 @@
+-- Corrections to saved attendance with a full audit trail. Records are only edited through
+-- update_attendance_record, which writes who changed what, when and why.
+
+CREATE TABLE public.attendance_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  record_id UUID REFERENCES public.attendance_records(id) ON DELETE SET NULL,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.attendance_sessions(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  changed_by UUID NOT NULL REFERENCES public.profiles(id),
+  changed_by_name TEXT, -- Snapshot so the log stays readable if the profile changes
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  old_status public.attendance_status NOT NULL,
+  new_status public.attendance_status NOT NULL,
+  old_minutes_late INTEGER,
+  new_minutes_late INTEGER,
+  old_excuse_code TEXT,
+  new_excuse_code TEXT,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> '')
+);
+
+CREATE INDEX attendance_audit_log_record_id_idx ON public.attendance_audit_log(record_id);
+CREATE INDEX attendance_audit_log_class_id_date_idx ON public.attendance_audit_log(class_id, date);
+
+ALTER TABLE public.attendance_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for teachers; rows are only written by update_attendance_record
+CREATE POLICY "Teachers can view the audit log for their classes" ON public.attendance_audit_log
+  FOR SELECT USING (public.user_owns_class(class_id));
+
+CREATE OR REPLACE FUNCTION public.update_attendance_record(
+  record_id UUID,
+  status public.attendance_status,
+  reason TEXT,
+  minutes_late INTEGER DEFAULT NULL,
+  excuse_code TEXT DEFAULT NULL
+)
+RETURNS public.attendance_records AS $$
+DECLARE
+  old_record public.attendance_records;
+  new_record public.attendance_records;
+BEGIN
+  SELECT * INTO old_record
+  FROM public.attendance_records ar
+  WHERE ar.id = update_attendance_record.record_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attendance record not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT public.user_owns_class(old_record.class_id) THEN
+    RAISE EXCEPTION 'You can only edit attendance for your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(btrim(update_attendance_record.reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to change attendance'
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.attendance_records ar
+  SET
+    status = update_attendance_record.status,
+    minutes_late = CASE WHEN update_attendance_record.status = 'late' THEN update_attendance_record.minutes_late END,
+    excuse_code = CASE WHEN update_attendance_record.status = 'excused' THEN COALESCE(update_attendance_record.excuse_code, 'other') END
+  WHERE ar.id = old_record.id
+  RETURNING * INTO new_record;
+
+  INSERT INTO public.attendance_audit_log (
+    record_id, class_id, student_id, session_id, date, changed_by, changed_by_name,
+    old_status, new_status, old_minutes_late, new_minutes_late, old_excuse_code, new_excuse_code, reason
+  )
+  SELECT
+    new_record.id, new_record.class_id, new_record.student_id, new_record.session_id, new_record.date,
+    auth.uid(), p.full_name,
+    old_record.status, new_record.status,
+    old_record.minutes_late, new_record.minutes_late,
+    old_record.excuse_code, new_record.excuse_code,
+    btrim(update_attendance_record.reason)
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.id = auth.uid();
+
+  -- Keep the session totals in step with the corrected record
+  UPDATE public.attendance_sessions s
+  SET
+    present_count = counts.present_count,
+    late_count = counts.late_count,
+    left_early_count = counts.left_early_count,
+    remote_count = counts.remote_count,
+    excused_count = counts.excused_count,
+    absent_count = counts.absent_count
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE ar.status = 'present') AS present_count,
+      COUNT(*) FILTER (WHERE ar.status = 'late') AS late_count,
+      COUNT(*) FILTER (WHERE ar.status = 'left_early') AS left_early_count,
+      COUNT(*) FILTER (WHERE ar.status = 'remote') AS remote_count,
+      COUNT(*) FILTER (WHERE ar.status = 'excused') AS excused_count,
+      COUNT(*) FILTER (WHERE ar.status = 'absent') AS absent_count
+    FROM public.attendance_records ar
+    WHERE ar.session_id = new_record.session_id
+  ) AS counts
+  WHERE s.id = new_record.session_id;
+
+  RETURN new_record;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.update_attendance_record(UUID, public.attendance_status, TEXT, INTEGER, TEXT) TO authenticated;
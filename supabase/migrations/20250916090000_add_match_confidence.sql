@@ -0,0 +1,82 @@
+-- Keep how confident face recognition was for each automatically recorded student, so a
+-- student's profile can show recent scan quality.
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN match_confidence REAL CHECK (match_confidence IS NULL OR match_confidence BETWEEN 0 AND 100);
+
+-- records: [{ "student_id": "<uuid>", "status": "<attendance_status>", "minutes_late": 5, "excuse_code": "illness",
+--             "first_seen_at": "<timestamptz>", "match_confidence": 87.5 }, ...]
+CREATE OR REPLACE FUNCTION public.commit_attendance(class_id UUID, date DATE, records JSONB, session_name TEXT DEFAULT 'Start of class')
+RETURNS public.attendance_sessions AS $$
+DECLARE
+  saved_session public.attendance_sessions;
+BEGIN
+  IF NOT public.user_owns_class(commit_attendance.class_id) THEN
+    RAISE EXCEPTION 'You can only record attendance for your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(commit_attendance.records) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'records must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(btrim(commit_attendance.session_name), '') = '' THEN
+    RAISE EXCEPTION 'session_name must not be empty'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Only students enrolled in the class can be recorded
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(commit_attendance.records) AS r
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.class_id = commit_attendance.class_id
+        AND e.student_id = (r ->> 'student_id')::UUID
+    )
+  ) THEN
+    RAISE EXCEPTION 'records contain students who are not enrolled in this class'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Re-scanning a session replaces it; its records go with it through ON DELETE CASCADE
+  DELETE FROM public.attendance_sessions s
+  WHERE s.class_id = commit_attendance.class_id
+    AND s.date = commit_attendance.date
+    AND s.name = btrim(commit_attendance.session_name);
+
+  INSERT INTO public.attendance_sessions (
+    class_id, teacher_id, date, name, total_students,
+    present_count, late_count, left_early_count, remote_count, excused_count, absent_count
+  )
+  SELECT
+    commit_attendance.class_id,
+    auth.uid(),
+    commit_attendance.date,
+    btrim(commit_attendance.session_name),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'present'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'late'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'left_early'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'remote'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'excused'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'absent')
+  FROM jsonb_array_elements(commit_attendance.records) AS r
+  RETURNING * INTO saved_session;
+
+  INSERT INTO public.attendance_records (class_id, student_id, date, session_id, status, minutes_late, excuse_code, first_seen_at, match_confidence)
+  SELECT
+    commit_attendance.class_id,
+    (r ->> 'student_id')::UUID,
+    commit_attendance.date,
+    saved_session.id,
+    (r ->> 'status')::public.attendance_status,
+    (r ->> 'minutes_late')::INTEGER,
+    r ->> 'excuse_code',
+    (r ->> 'first_seen_at')::TIMESTAMPTZ,
+    (r ->> 'match_confidence')::REAL
+  FROM jsonb_array_elements(commit_attendance.records) AS r;
+
+  RETURN saved_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
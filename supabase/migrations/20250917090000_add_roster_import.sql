@@ -0,0 +1,77 @@
+-- Bulk roster import. Students can be created from a CSV without face data and enrolled in one
+-- batch; their faces are captured later from the class page. Contact details are optional.
+
+ALTER TABLE public.students
+  ADD COLUMN email TEXT,
+  ADD COLUMN guardian_name TEXT,
+  ADD COLUMN guardian_contact TEXT;
+
+-- students: [{ "student_id": "S1024", "full_name": "Ada Lovelace", "email": "ada@example.org",
+--              "guardian_name": "Anne Lovelace", "guardian_contact": "555-0100" }, ...]
+-- A student_id that already exists reuses that student instead of creating a duplicate, and
+-- their stored details are left as they are. Everything is created and enrolled atomically.
+CREATE OR REPLACE FUNCTION public.import_roster(class_id UUID, students JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  created_count INTEGER;
+  enrolled_count INTEGER;
+BEGIN
+  IF NOT public.user_owns_class(import_roster.class_id) THEN
+    RAISE EXCEPTION 'You can only import students into your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(import_roster.students) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'students must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(import_roster.students) s
+    WHERE COALESCE(btrim(s ->> 'student_id'), '') = '' OR COALESCE(btrim(s ->> 'full_name'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'every student needs a student_id and full_name'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT count(*) <> count(DISTINCT btrim(s ->> 'student_id'))
+    FROM jsonb_array_elements(import_roster.students) s
+  ) THEN
+    RAISE EXCEPTION 'student_id values must be unique within one import'
+      USING ERRCODE = '22023';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.students (student_id, full_name, email, guardian_name, guardian_contact)
+    SELECT
+      btrim(s ->> 'student_id'),
+      btrim(s ->> 'full_name'),
+      NULLIF(btrim(s ->> 'email'), ''),
+      NULLIF(btrim(s ->> 'guardian_name'), ''),
+      NULLIF(btrim(s ->> 'guardian_contact'), '')
+    FROM jsonb_array_elements(import_roster.students) s
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO created_count FROM inserted;
+
+  WITH enrolled AS (
+    INSERT INTO public.enrollments (class_id, student_id)
+    SELECT import_roster.class_id, st.id
+    FROM jsonb_array_elements(import_roster.students) s
+    JOIN public.students st ON st.student_id = btrim(s ->> 'student_id')
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO enrolled_count FROM enrolled;
+
+  RETURN jsonb_build_object(
+    'created', created_count,
+    'enrolled', enrolled_count,
+    'already_enrolled', jsonb_array_length(import_roster.students) - enrolled_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.import_roster(UUID, JSONB) TO authenticated;
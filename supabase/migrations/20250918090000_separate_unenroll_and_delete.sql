@@ -0,0 +1,220 @@
+-- Removing a student from one class used to delete the whole student, taking their history and
+-- enrollments in every other class with them. Removal is now a soft flag on the enrollment,
+-- archiving hides a student from every roster, and permanent deletion is a separate, guarded step.
+
+-- A removed enrollment stays so the student's past attendance in the class is still reported
+ALTER TABLE public.enrollments
+  ADD COLUMN unenrolled_at TIMESTAMP WITH TIME ZONE;
+
+-- Archived students keep their records and face data but are left out of rosters and scans
+ALTER TABLE public.students
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE POLICY "Teachers can update enrollments for their classes" ON public.enrollments
+  FOR UPDATE USING (public.user_owns_class(class_id));
+
+-- Same as before, except that re-importing a student who was removed from the class restores them
+CREATE OR REPLACE FUNCTION public.import_roster(class_id UUID, students JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  created_count INTEGER;
+  enrolled_count INTEGER;
+BEGIN
+  IF NOT public.user_owns_class(import_roster.class_id) THEN
+    RAISE EXCEPTION 'You can only import students into your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(import_roster.students) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'students must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(import_roster.students) s
+    WHERE COALESCE(btrim(s ->> 'student_id'), '') = '' OR COALESCE(btrim(s ->> 'full_name'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'every student needs a student_id and full_name'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT count(*) <> count(DISTINCT btrim(s ->> 'student_id'))
+    FROM jsonb_array_elements(import_roster.students) s
+  ) THEN
+    RAISE EXCEPTION 'student_id values must be unique within one import'
+      USING ERRCODE = '22023';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.students (student_id, full_name, email, guardian_name, guardian_contact)
+    SELECT
+      btrim(s ->> 'student_id'),
+      btrim(s ->> 'full_name'),
+      NULLIF(btrim(s ->> 'email'), ''),
+      NULLIF(btrim(s ->> 'guardian_name'), ''),
+      NULLIF(btrim(s ->> 'guardian_contact'), '')
+    FROM jsonb_array_elements(import_roster.students) s
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO created_count FROM inserted;
+
+  WITH enrolled AS (
+    INSERT INTO public.enrollments AS e (class_id, student_id)
+    SELECT import_roster.class_id, st.id
+    FROM jsonb_array_elements(import_roster.students) s
+    JOIN public.students st ON st.student_id = btrim(s ->> 'student_id')
+    ON CONFLICT ON CONSTRAINT enrollments_class_id_student_id_key
+      DO UPDATE SET unenrolled_at = NULL
+      WHERE e.unenrolled_at IS NOT NULL
+    RETURNING 1
+  )
+  SELECT count(*) INTO enrolled_count FROM enrolled;
+
+  RETURN jsonb_build_object(
+    'created', created_count,
+    'enrolled', enrolled_count,
+    'already_enrolled', jsonb_array_length(import_roster.students) - enrolled_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, except that students removed from the class can no longer be recorded
+-- records: [{ "student_id": "<uuid>", "status": "<attendance_status>", "minutes_late": 5, "excuse_code": "illness",
+--             "first_seen_at": "<timestamptz>", "match_confidence": 87.5 }, ...]
+CREATE OR REPLACE FUNCTION public.commit_attendance(class_id UUID, date DATE, records JSONB, session_name TEXT DEFAULT 'Start of class')
+RETURNS public.attendance_sessions AS $$
+DECLARE
+  saved_session public.attendance_sessions;
+BEGIN
+  IF NOT public.user_owns_class(commit_attendance.class_id) THEN
+    RAISE EXCEPTION 'You can only record attendance for your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(commit_attendance.records) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'records must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(btrim(commit_attendance.session_name), '') = '' THEN
+    RAISE EXCEPTION 'session_name must not be empty'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Only students enrolled in the class can be recorded
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(commit_attendance.records) AS r
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.class_id = commit_attendance.class_id
+        AND e.student_id = (r ->> 'student_id')::UUID
+        AND e.unenrolled_at IS NULL
+    )
+  ) THEN
+    RAISE EXCEPTION 'records contain students who are not enrolled in this class'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Re-scanning a session replaces it; its records go with it through ON DELETE CASCADE
+  DELETE FROM public.attendance_sessions s
+  WHERE s.class_id = commit_attendance.class_id
+    AND s.date = commit_attendance.date
+    AND s.name = btrim(commit_attendance.session_name);
+
+  INSERT INTO public.attendance_sessions (
+    class_id, teacher_id, date, name, total_students,
+    present_count, late_count, left_early_count, remote_count, excused_count, absent_count
+  )
+  SELECT
+    commit_attendance.class_id,
+    auth.uid(),
+    commit_attendance.date,
+    btrim(commit_attendance.session_name),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'present'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'late'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'left_early'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'remote'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'excused'),
+    COUNT(*) FILTER (WHERE r ->> 'status' = 'absent')
+  FROM jsonb_array_elements(commit_attendance.records) AS r
+  RETURNING * INTO saved_session;
+
+  INSERT INTO public.attendance_records (class_id, student_id, date, session_id, status, minutes_late, excuse_code, first_seen_at, match_confidence)
+  SELECT
+    commit_attendance.class_id,
+    (r ->> 'student_id')::UUID,
+    commit_attendance.date,
+    saved_session.id,
+    (r ->> 'status')::public.attendance_status,
+    (r ->> 'minutes_late')::INTEGER,
+    r ->> 'excuse_code',
+    (r ->> 'first_seen_at')::TIMESTAMPTZ,
+    (r ->> 'match_confidence')::REAL
+  FROM jsonb_array_elements(commit_attendance.records) AS r;
+
+  RETURN saved_session;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deletes a student with everything attached to them: the student row and its face descriptor,
+-- their face templates, and through ON DELETE CASCADE their enrollments, attendance and audit history.
+-- Teachers may only delete students who are not enrolled in anyone else's classes.
+CREATE OR REPLACE FUNCTION public.delete_student_permanently(student_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  caller_role public.user_role;
+  template_count INTEGER;
+  record_count INTEGER;
+BEGIN
+  SELECT p.role INTO caller_role FROM public.profiles p WHERE p.id = auth.uid();
+  IF caller_role IS NULL THEN
+    RAISE EXCEPTION 'Only teachers can delete students'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.students st WHERE st.id = delete_student_permanently.student_id) THEN
+    RAISE EXCEPTION 'Student not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF caller_role <> 'admin' AND (
+    NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.student_id = delete_student_permanently.student_id
+        AND public.user_owns_class(e.class_id)
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.student_id = delete_student_permanently.student_id
+        AND NOT public.user_owns_class(e.class_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'This student is enrolled in classes you do not teach. Remove them from your classes instead.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT count(*) INTO record_count
+  FROM public.attendance_records r
+  WHERE r.student_id = delete_student_permanently.student_id;
+
+  WITH purged AS (
+    DELETE FROM public.face_templates t
+    WHERE t.student_id = delete_student_permanently.student_id
+    RETURNING 1
+  )
+  SELECT count(*) INTO template_count FROM purged;
+
+  DELETE FROM public.students st
+  WHERE st.id = delete_student_permanently.student_id;
+
+  RETURN jsonb_build_object(
+    'face_templates', template_count,
+    'attendance_records', record_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_student_permanently(UUID) TO authenticated;
@@ -0,0 +1,51 @@
+-- Class lifecycle: archived classes drop off the dashboard while their reports stay available,
+-- and a class can be duplicated with its roster so a new term doesn't start from scratch.
+
+ALTER TABLE public.classes
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Copies the class settings and its current roster into a new class owned by the caller.
+-- Subject and period default to the original's; attendance history is not copied.
+CREATE OR REPLACE FUNCTION public.duplicate_class(class_id UUID, name TEXT, subject TEXT DEFAULT NULL, period TEXT DEFAULT NULL)
+RETURNS public.classes AS $$
+DECLARE
+  original public.classes;
+  created public.classes;
+BEGIN
+  IF NOT public.user_owns_class(duplicate_class.class_id) THEN
+    RAISE EXCEPTION 'You can only duplicate your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(btrim(duplicate_class.name), '') = '' THEN
+    RAISE EXCEPTION 'name must not be empty'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO original FROM public.classes c WHERE c.id = duplicate_class.class_id;
+
+  INSERT INTO public.classes (teacher_id, name, subject, period, start_time, late_grace_minutes)
+  VALUES (
+    auth.uid(),
+    btrim(duplicate_class.name),
+    COALESCE(NULLIF(btrim(duplicate_class.subject), ''), original.subject),
+    COALESCE(NULLIF(btrim(duplicate_class.period), ''), original.period),
+    original.start_time,
+    original.late_grace_minutes
+  )
+  RETURNING * INTO created;
+
+  -- Only students currently on the roster move over; removed and archived students stay behind
+  INSERT INTO public.enrollments (class_id, student_id)
+  SELECT created.id, e.student_id
+  FROM public.enrollments e
+  JOIN public.students st ON st.id = e.student_id
+  WHERE e.class_id = duplicate_class.class_id
+    AND e.unenrolled_at IS NULL
+    AND st.archived_at IS NULL;
+
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.duplicate_class(UUID, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,50 @@
+-- Archiving hides a student from every class roster, including other teachers' classes, so it
+-- follows the same rule as delete_student_permanently: only for students who are enrolled only in
+-- the caller's classes, or by an admin. Teachers can still edit the other student details directly.
+
+REVOKE UPDATE ON public.students FROM anon, authenticated;
+GRANT UPDATE (student_id, full_name, facial_id, email, guardian_name, guardian_contact) ON public.students TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_student_archived(student_id UUID, archived BOOLEAN)
+RETURNS public.students AS $$
+DECLARE
+  caller_role public.user_role;
+  updated public.students;
+BEGIN
+  SELECT p.role INTO caller_role FROM public.profiles p WHERE p.id = auth.uid();
+  IF caller_role IS NULL THEN
+    RAISE EXCEPTION 'Only teachers can archive students'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.students st WHERE st.id = set_student_archived.student_id) THEN
+    RAISE EXCEPTION 'Student not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF caller_role <> 'admin' AND (
+    NOT EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.student_id = set_student_archived.student_id
+        AND public.user_owns_class(e.class_id)
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.enrollments e
+      WHERE e.student_id = set_student_archived.student_id
+        AND NOT public.user_owns_class(e.class_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'This student is enrolled in classes you do not teach. Remove them from your classes instead.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.students st
+  SET archived_at = CASE WHEN set_student_archived.archived THEN COALESCE(st.archived_at, NOW()) END
+  WHERE st.id = set_student_archived.student_id
+  RETURNING * INTO updated;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_student_archived(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,76 @@
+-- Archived students are left off every roster, so enrolling one from a CSV made them count as
+-- "enrolled" without ever appearing in the class. They are now skipped and listed in the result
+-- so the teacher can restore them from the student's profile instead.
+CREATE OR REPLACE FUNCTION public.import_roster(class_id UUID, students JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  created_count INTEGER;
+  enrolled_count INTEGER;
+  archived_ids JSONB;
+BEGIN
+  IF NOT public.user_owns_class(import_roster.class_id) THEN
+    RAISE EXCEPTION 'You can only import students into your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(import_roster.students) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'students must be a JSON array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(import_roster.students) s
+    WHERE COALESCE(btrim(s ->> 'student_id'), '') = '' OR COALESCE(btrim(s ->> 'full_name'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'every student needs a student_id and full_name'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT count(*) <> count(DISTINCT btrim(s ->> 'student_id'))
+    FROM jsonb_array_elements(import_roster.students) s
+  ) THEN
+    RAISE EXCEPTION 'student_id values must be unique within one import'
+      USING ERRCODE = '22023';
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.students (student_id, full_name, email, guardian_name, guardian_contact)
+    SELECT
+      btrim(s ->> 'student_id'),
+      btrim(s ->> 'full_name'),
+      NULLIF(btrim(s ->> 'email'), ''),
+      NULLIF(btrim(s ->> 'guardian_name'), ''),
+      NULLIF(btrim(s ->> 'guardian_contact'), '')
+    FROM jsonb_array_elements(import_roster.students) s
+    ON CONFLICT DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*) INTO created_count FROM inserted;
+
+  SELECT COALESCE(jsonb_agg(st.student_id ORDER BY st.student_id), '[]'::jsonb) INTO archived_ids
+  FROM jsonb_array_elements(import_roster.students) s
+  JOIN public.students st ON st.student_id = btrim(s ->> 'student_id')
+  WHERE st.archived_at IS NOT NULL;
+
+  WITH enrolled AS (
+    INSERT INTO public.enrollments AS e (class_id, student_id)
+    SELECT import_roster.class_id, st.id
+    FROM jsonb_array_elements(import_roster.students) s
+    JOIN public.students st ON st.student_id = btrim(s ->> 'student_id')
+    WHERE st.archived_at IS NULL
+    ON CONFLICT ON CONSTRAINT enrollments_class_id_student_id_key
+      DO UPDATE SET unenrolled_at = NULL
+      WHERE e.unenrolled_at IS NOT NULL
+    RETURNING 1
+  )
+  SELECT count(*) INTO enrolled_count FROM enrolled;
+
+  RETURN jsonb_build_object(
+    'created', created_count,
+    'enrolled', enrolled_count,
+    'archived', archived_ids,
+    'already_enrolled', jsonb_array_length(import_roster.students) - enrolled_count - jsonb_array_length(archived_ids)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,46 @@
+-- Attaching an archived student to a class used to enroll them first and unarchive them second.
+-- When the unarchive was refused the enrollment stayed behind, leaving an invisible student on the
+-- roster. Both steps now happen in one call, under the same rule as set_student_archived.
+CREATE OR REPLACE FUNCTION public.restore_student_to_class(student_id UUID, class_id UUID)
+RETURNS public.students AS $$
+DECLARE
+  caller_role public.user_role;
+  restored public.students;
+BEGIN
+  SELECT p.role INTO caller_role FROM public.profiles p WHERE p.id = auth.uid();
+  IF caller_role IS NULL OR NOT public.user_owns_class(restore_student_to_class.class_id) THEN
+    RAISE EXCEPTION 'You can only add students to your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.students st WHERE st.id = restore_student_to_class.student_id) THEN
+    RAISE EXCEPTION 'Student not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The class being joined is the caller's, so only enrollments elsewhere can block the restore
+  IF caller_role <> 'admin' AND EXISTS (
+    SELECT 1 FROM public.enrollments e
+    WHERE e.student_id = restore_student_to_class.student_id
+      AND NOT public.user_owns_class(e.class_id)
+  ) THEN
+    RAISE EXCEPTION 'This student is enrolled in classes you do not teach. Ask an admin to restore them.'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.enrollments AS e (class_id, student_id)
+  VALUES (restore_student_to_class.class_id, restore_student_to_class.student_id)
+  ON CONFLICT ON CONSTRAINT enrollments_class_id_student_id_key
+    DO UPDATE SET unenrolled_at = NULL
+    WHERE e.unenrolled_at IS NOT NULL;
+
+  UPDATE public.students st
+  SET archived_at = NULL
+  WHERE st.id = restore_student_to_class.student_id
+  RETURNING * INTO restored;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.restore_student_to_class(UUID, UUID) TO authenticated;
@@ -0,0 +1,70 @@
+-- Deleting a class kept every student, but a student whose only enrollment was in that class was
+-- left with face data and no class, and delete_student_permanently needs the caller to teach one of
+-- the student's classes, so nobody could purge them. The class owner can now delete those students
+-- together with the class.
+
+-- Students enrolled (currently or in the past) in this class and in no other class
+CREATE OR REPLACE FUNCTION public.class_only_students(class_id UUID)
+RETURNS SETOF UUID AS $$
+  SELECT e.student_id
+  FROM public.enrollments e
+  WHERE e.class_id = class_only_students.class_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.enrollments other
+      WHERE other.student_id = e.student_id
+        AND other.class_id <> class_only_students.class_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enrollments elsewhere are hidden from teachers by RLS, so the count for the delete dialog comes from here
+CREATE OR REPLACE FUNCTION public.count_class_only_students(class_id UUID)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT public.user_owns_class(count_class_only_students.class_id) THEN
+    RAISE EXCEPTION 'You can only delete your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN (SELECT count(*) FROM public.class_only_students(count_class_only_students.class_id));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Deletes the class (enrollments, sessions and records go through ON DELETE CASCADE) and, when asked,
+-- the students who were only ever in it along with their face templates
+CREATE OR REPLACE FUNCTION public.delete_class(class_id UUID, delete_class_only_students BOOLEAN DEFAULT false)
+RETURNS JSONB AS $$
+DECLARE
+  student_ids UUID[] := '{}';
+  template_count INTEGER := 0;
+BEGIN
+  IF NOT public.user_owns_class(delete_class.class_id) THEN
+    RAISE EXCEPTION 'You can only delete your own classes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF delete_class.delete_class_only_students THEN
+    SELECT COALESCE(array_agg(s), '{}') INTO student_ids
+    FROM public.class_only_students(delete_class.class_id) s;
+
+    WITH purged AS (
+      DELETE FROM public.face_templates t
+      WHERE t.student_id = ANY (student_ids)
+      RETURNING 1
+    )
+    SELECT count(*) INTO template_count FROM purged;
+  END IF;
+
+  DELETE FROM public.classes c WHERE c.id = delete_class.class_id;
+
+  DELETE FROM public.students st WHERE st.id = ANY (student_ids);
+
+  RETURN jsonb_build_object(
+    'students', cardinality(student_ids),
+    'face_templates', template_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.class_only_students(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.count_class_only_students(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_class(UUID, BOOLEAN) TO authenticated;